@@ -0,0 +1,58 @@
+// Server configuration. Keys live only here and never reach the browser bundle.
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+// Minimal .env loader so `npm run server` works without extra tooling
+const loadEnvFile = (path: string) => {
+  if (!existsSync(path)) return;
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*?)\s*$/);
+    if (match && process.env[match[1]] === undefined) {
+      process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+};
+
+loadEnvFile(resolve(process.cwd(), '.env'));
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const readList = (value: string | undefined, fallback: string[]): string[] => {
+  const items = (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : fallback;
+};
+
+export interface RouteLimit {
+  requests: number;
+  windowMs: number;
+}
+
+export const serverConfig = {
+  port: readNumber(process.env.PORT, 8787),
+  // Only behind a reverse proxy that sets X-Forwarded-For; otherwise clients could spoof their rate-limit identity
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  // /api/usage is disabled unless a token is set; callers send it as a Bearer token
+  usageToken: process.env.USAGE_TOKEN ?? '',
+  nseUrl: process.env.NSE_API_URL || 'http://4.222.216.225:8002/nse',
+  brave: {
+    apiKey: process.env.BRAVE_API_KEY ?? '',
+    baseUrl: process.env.BRAVE_BASE_URL || 'https://api.search.brave.com/res/v1/web/search'
+  },
+  llm: {
+    baseUrl: (process.env.LLM_BASE_URL || 'https://api.groq.com/openai/v1').replace(/\/+$/, ''),
+    apiKey: process.env.LLM_API_KEY ?? process.env.GROQ_API_KEY ?? '',
+    // The proxy pays for every call, so clients may only pick from these models and token budgets are capped
+    allowedModels: readList(process.env.LLM_ALLOWED_MODELS, ['moonshotai/kimi-k2-instruct-0905']),
+    maxTokens: readNumber(process.env.LLM_MAX_TOKENS, 2000),
+    // Asks streaming upstreams for a final usage chunk; turn off for servers that reject stream_options
+    streamUsage: process.env.LLM_STREAM_USAGE !== 'false'
+  },
+  rateLimits: {
+    nse: { requests: readNumber(process.env.RATE_LIMIT_NSE, 60), windowMs: 60_000 },
+    search: { requests: readNumber(process.env.RATE_LIMIT_SEARCH, 30), windowMs: 60_000 },
+    ai: { requests: readNumber(process.env.RATE_LIMIT_AI, 10), windowMs: 60_000 }
+  } as Record<'nse' | 'search' | 'ai', RouteLimit>
+};
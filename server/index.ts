@@ -0,0 +1,328 @@
+// API proxy for the web app. Holds the Brave, LLM and NSE credentials
+// server-side, applies per-client rate limits and logs upstream usage.
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { serverConfig } from './config';
+import { RateLimiter } from './rateLimit';
+import { logUsage, usageTotals } from './usage';
+
+type Route = 'nse' | 'search' | 'ai';
+
+interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+// A prepared chat completion request, with what is needed to estimate usage if the upstream reports none
+interface AiRequest {
+  body: string;
+  stream: boolean;
+  promptChars: number;
+}
+
+// Client errors detected before any upstream call
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const MAX_BODY_BYTES = 256 * 1024;
+// Rough characters-per-token ratio for usage estimates when the upstream sends no counts
+const CHARS_PER_TOKEN = 4;
+// Logged for requests the client abandoned before the response finished (nginx's convention)
+const CLIENT_CLOSED_REQUEST = 499;
+
+const limiter = new RateLimiter();
+setInterval(() => limiter.sweep(), 60_000).unref();
+
+// X-Forwarded-For is client-controlled unless a trusted reverse proxy sets it
+const clientIdOf = (req: IncomingMessage): string => {
+  if (serverConfig.trustProxy) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = Array.isArray(forwarded) ? forwarded[0] : forwarded?.split(',')[0];
+    if (first?.trim()) return first.trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const isAuthorized = (req: IncomingMessage, token: string): boolean => {
+  const header = req.headers.authorization ?? '';
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop buffering; the 413 response closes the connection
+        req.removeAllListeners('data');
+        req.pause();
+        reject(new HttpError(413, 'Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+// Reads token counts from SSE chunks as they pass through: the final chunk carries `usage`
+// (or `x_groq.usage` on Groq) when requested; content deltas are counted for an estimate otherwise
+class StreamUsageTracker {
+  usage: TokenUsage | undefined;
+  contentChars = 0;
+  bytes = 0;
+  private buffer = '';
+
+  push(chunk: Buffer): void {
+    this.bytes += chunk.length;
+    this.buffer += chunk.toString('utf8');
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    lines.forEach(line => this.parseLine(line));
+  }
+
+  private parseLine(line: string): void {
+    const data = line.trim();
+    if (!data.startsWith('data:')) return;
+    const payload = data.slice(5).trim();
+    if (!payload || payload === '[DONE]') return;
+    try {
+      const event = JSON.parse(payload) as {
+        usage?: TokenUsage | null;
+        x_groq?: { usage?: TokenUsage };
+        choices?: Array<{ delta?: { content?: string } }>;
+      };
+      this.usage = event.usage ?? event.x_groq?.usage ?? this.usage;
+      this.contentChars += event.choices?.[0]?.delta?.content?.length ?? 0;
+    } catch {
+      // Partial or non-JSON events carry nothing to count
+    }
+  }
+}
+
+// Sends an upstream response back to the client, streaming the body when it is an SSE stream.
+// Streams are counted into the caller's tracker so a stream the client abandons can still be logged.
+const relay = async (
+  upstream: Response,
+  res: ServerResponse,
+  tracker: StreamUsageTracker
+): Promise<{ bytes: number; json?: unknown; stream?: StreamUsageTracker }> => {
+  const contentType = upstream.headers.get('content-type') ?? 'application/json';
+  const headers: Record<string, string> = { 'Content-Type': contentType };
+  const retryAfter = upstream.headers.get('retry-after');
+  if (retryAfter) headers['Retry-After'] = retryAfter;
+
+  if (contentType.includes('text/event-stream') && upstream.body) {
+    res.writeHead(upstream.status, { ...headers, 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    const stream = Readable.fromWeb(upstream.body as WebReadableStream<Uint8Array>);
+    stream.on('data', (chunk: Buffer) => tracker.push(chunk));
+    await new Promise<void>((resolve, reject) => {
+      stream.pipe(res);
+      stream.on('end', resolve);
+      stream.on('error', reject);
+    });
+    return { bytes: tracker.bytes, stream: tracker };
+  }
+
+  const text = await upstream.text();
+  res.writeHead(upstream.status, headers);
+  res.end(text);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  return { bytes: Buffer.byteLength(text), json };
+};
+
+const proxyNse = async (signal: AbortSignal): Promise<Response> => fetch(serverConfig.nseUrl, { signal });
+
+const proxySearch = async (url: URL, signal: AbortSignal): Promise<Response> => {
+  const params = new URLSearchParams();
+  params.set('q', url.searchParams.get('q') ?? '');
+  params.set('count', String(Math.min(20, Number(url.searchParams.get('count')) || 10)));
+  const freshness = url.searchParams.get('freshness');
+  if (freshness) params.set('freshness', freshness);
+
+  return fetch(`${serverConfig.brave.baseUrl}?${params}`, {
+    headers: {
+      'X-Subscription-Token': serverConfig.brave.apiKey,
+      'Accept': 'application/json'
+    },
+    signal
+  });
+};
+
+// Accepts only allowed models, caps max_tokens and, unless disabled, asks streaming upstreams to report usage
+const prepareAiRequest = (raw: string): AiRequest => {
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  if (typeof payload.model !== 'string' || !serverConfig.llm.allowedModels.includes(payload.model)) {
+    throw new HttpError(400, 'Model is not allowed');
+  }
+
+  const requested = Number(payload.max_tokens);
+  const maxTokens = Number.isFinite(requested) && requested > 0 ? Math.min(requested, serverConfig.llm.maxTokens) : serverConfig.llm.maxTokens;
+  const stream = payload.stream === true;
+  const prepared = {
+    ...payload,
+    max_tokens: maxTokens,
+    ...(stream && serverConfig.llm.streamUsage ? { stream_options: { include_usage: true } } : {})
+  };
+  return { body: JSON.stringify(prepared), stream, promptChars: JSON.stringify(payload.messages ?? '').length };
+};
+
+const proxyAi = async (body: string, signal: AbortSignal): Promise<Response> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (serverConfig.llm.apiKey) {
+    headers['Authorization'] = `Bearer ${serverConfig.llm.apiKey}`;
+  }
+  return fetch(`${serverConfig.llm.baseUrl}/chat/completions`, { method: 'POST', headers, body, signal });
+};
+
+// Reported usage, or an estimate from the prompt and streamed text when a stream reports none
+const streamUsageOf = (aiRequest: AiRequest, tracker: StreamUsageTracker): { usage: TokenUsage; estimated: boolean } => ({
+  usage: tracker.usage ?? {
+    prompt_tokens: Math.ceil(aiRequest.promptChars / CHARS_PER_TOKEN),
+    completion_tokens: Math.ceil(tracker.contentChars / CHARS_PER_TOKEN)
+  },
+  estimated: !tracker.usage
+});
+
+const routeOf = (method: string, pathname: string): Route | null => {
+  if (method === 'GET' && pathname === '/api/nse') return 'nse';
+  if (method === 'GET' && pathname === '/api/search') return 'search';
+  if (method === 'POST' && pathname === '/api/ai/chat/completions') return 'ai';
+  return null;
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const method = req.method ?? 'GET';
+
+  if (method === 'GET' && url.pathname === '/api/usage') {
+    if (!serverConfig.usageToken) {
+      sendJson(res, 404, { error: 'Not found' });
+    } else if (!isAuthorized(req, serverConfig.usageToken)) {
+      sendJson(res, 401, { error: 'Unauthorized' }, { 'WWW-Authenticate': 'Bearer' });
+    } else {
+      sendJson(res, 200, usageTotals());
+    }
+    return;
+  }
+
+  const route = routeOf(method, url.pathname);
+  if (!route) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  const client = clientIdOf(req);
+  const decision = limiter.check(client, route, serverConfig.rateLimits[route]);
+  if (!decision.allowed) {
+    sendJson(res, 429, { error: 'Rate limit exceeded' }, { 'Retry-After': String(Math.ceil(decision.retryAfterMs / 1000)) });
+    return;
+  }
+
+  // Stop paying for upstream work once the browser has gone away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const started = Date.now();
+  const tracker = new StreamUsageTracker();
+  let aiRequest: AiRequest | null = null;
+  try {
+    let upstream: Response;
+    if (route === 'nse') {
+      upstream = await proxyNse(controller.signal);
+    } else if (route === 'search') {
+      upstream = await proxySearch(url, controller.signal);
+    } else {
+      aiRequest = prepareAiRequest(await readBody(req));
+      upstream = await proxyAi(aiRequest.body, controller.signal);
+    }
+
+    const { bytes, json, stream } = await relay(upstream, res, tracker);
+    let usage = (json as { usage?: TokenUsage } | undefined)?.usage;
+    let estimated = false;
+    if (stream && aiRequest?.stream && upstream.ok) {
+      ({ usage, estimated } = streamUsageOf(aiRequest, stream));
+    }
+    logUsage({
+      route,
+      client,
+      status: upstream.status,
+      durationMs: Date.now() - started,
+      bytes,
+      promptTokens: usage?.prompt_tokens,
+      completionTokens: usage?.completion_tokens,
+      ...(estimated ? { estimated } : {})
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      logUsage({ route, client, status: error.status, durationMs: Date.now() - started });
+      if (!res.headersSent) sendJson(res, error.status, { error: error.message }, { Connection: 'close' });
+      return;
+    }
+    if (controller.signal.aborted) {
+      // The client went away; a stream it abandoned still cost whatever was generated so far
+      const partial = aiRequest?.stream && tracker.bytes > 0 ? streamUsageOf(aiRequest, tracker) : null;
+      logUsage({
+        route,
+        client,
+        status: CLIENT_CLOSED_REQUEST,
+        durationMs: Date.now() - started,
+        bytes: tracker.bytes,
+        promptTokens: partial?.usage.prompt_tokens,
+        completionTokens: partial?.usage.completion_tokens,
+        ...(partial?.estimated ? { estimated: true } : {})
+      });
+      return;
+    }
+    console.error(`Error proxying ${route}:`, error);
+    logUsage({ route, client, status: 502, durationMs: Date.now() - started });
+    if (!res.headersSent) {
+      sendJson(res, 502, { error: 'Upstream request failed' });
+    } else {
+      res.end();
+    }
+  }
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.error('Unhandled server error:', error);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' });
+  });
+}).listen(serverConfig.port, () => {
+  console.log(`API proxy listening on http://localhost:${serverConfig.port}`);
+});
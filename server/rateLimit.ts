@@ -0,0 +1,42 @@
+// Fixed-window request counter per client and route
+
+import { RouteLimit } from './config';
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+
+  check(clientId: string, route: string, limit: RouteLimit, now: number = Date.now()): RateLimitDecision {
+    const key = `${route}:${clientId}`;
+    let window = this.windows.get(key);
+
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + limit.windowMs };
+      this.windows.set(key, window);
+    }
+
+    if (window.count >= limit.requests) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.resetAt - now };
+    }
+
+    window.count++;
+    return { allowed: true, remaining: limit.requests - window.count, retryAfterMs: 0 };
+  }
+
+  // Drops expired windows so idle clients don't accumulate
+  sweep(now: number = Date.now()): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+// Upstream usage log: one JSON line per proxied call plus running totals per route
+
+export interface UsageRecord {
+  route: string;
+  client: string;
+  status: number;
+  durationMs: number;
+  bytes?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  // Token counts were estimated from text length because the upstream reported none
+  estimated?: boolean;
+}
+
+interface UsageTotals {
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+const totals = new Map<string, UsageTotals>();
+
+export const logUsage = (record: UsageRecord): void => {
+  const current = totals.get(record.route) ?? { calls: 0, errors: 0, promptTokens: 0, completionTokens: 0 };
+  current.calls++;
+  if (record.status >= 400) current.errors++;
+  current.promptTokens += record.promptTokens ?? 0;
+  current.completionTokens += record.completionTokens ?? 0;
+  totals.set(record.route, current);
+
+  console.log(JSON.stringify({ type: 'upstream', at: new Date().toISOString(), ...record }));
+};
+
+export const usageTotals = (): Record<string, UsageTotals> => Object.fromEntries(totals);
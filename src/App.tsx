@@ -1,17 +1,39 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { TrendingUp, Shield, Calculator, PieChart, BarChart3, Users, Star, ChevronRight, DollarSign, Target, BookOpen, Phone, Mail, MapPin } from 'lucide-react';
 import StockResearch from './components/StockResearch';
 import PortfolioAnalyzer from './components/PortfolioAnalyzer';
 import FinancialPlanning from './components/FinancialPlanning';
 import MarketDashboard from './components/MarketDashboard';
+import StockScreener from './components/StockScreener';
+import StockComparison from './components/StockComparison';
+import Watchlists from './components/Watchlists';
+import Alerts from './components/Alerts';
+import CorporateActionsCalendar from './components/CorporateActionsCalendar';
+import { useAlerts } from './hooks/useAlerts';
+import { startAlertMonitor } from './services/alerts';
+import { startIndexRecorder } from './services/marketBreadth';
 
 function App() {
   const [activeTab, setActiveTab] = useState('home');
+  const { unreadCount } = useAlerts();
+
+  useEffect(() => startAlertMonitor(), []);
+  useEffect(() => startIndexRecorder(), []);
 
   const renderContent = () => {
     switch (activeTab) {
       case 'research':
         return <StockResearch />;
+      case 'screener':
+        return <StockScreener />;
+      case 'compare':
+        return <StockComparison />;
+      case 'watchlists':
+        return <Watchlists />;
+      case 'alerts':
+        return <Alerts />;
+      case 'calendar':
+        return <CorporateActionsCalendar />;
       case 'portfolio':
         return <PortfolioAnalyzer />;
       case 'planning':
@@ -230,6 +252,11 @@ function App() {
               {[
                 { id: 'home', label: 'Home' },
                 { id: 'research', label: 'NSE Research' },
+                { id: 'screener', label: 'Screener' },
+                { id: 'compare', label: 'Compare' },
+                { id: 'watchlists', label: 'Watchlists' },
+                { id: 'alerts', label: 'Alerts' },
+                { id: 'calendar', label: 'Calendar' },
                 { id: 'portfolio', label: 'Portfolio' },
                 { id: 'planning', label: 'Planning' },
                 { id: 'market', label: 'Market' }
@@ -244,6 +271,9 @@ function App() {
                   }`}
                 >
                   {item.label}
+                  {item.id === 'alerts' && unreadCount > 0 && (
+                    <span className="ml-1.5 px-1.5 py-0.5 rounded-full bg-red-600 text-white text-xs">{unreadCount}</span>
+                  )}
                 </button>
               ))}
             </div>
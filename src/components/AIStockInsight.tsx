@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Brain, Loader, RefreshCw, ShieldAlert, Target } from 'lucide-react';
+import { apiService, isAbortError, StockInsight } from '../services/api';
+import { APIError } from '../services/errors';
+import { RiskLevel, StockRecommendation } from '../services/stockAnalysis';
+import ErrorNotice from './ErrorNotice';
+import CitedText, { CitationLinks } from './CitedText';
+
+interface AIStockInsightProps {
+  ticker: string;
+}
+
+const recommendationStyles: Record<StockRecommendation, string> = {
+  buy: 'bg-green-500/20 text-green-400 border-green-500/30',
+  hold: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  sell: 'bg-red-500/20 text-red-400 border-red-500/30'
+};
+
+const riskMeter: Record<RiskLevel, { width: string; color: string }> = {
+  low: { width: '33%', color: 'bg-green-500' },
+  medium: { width: '66%', color: 'bg-yellow-500' },
+  high: { width: '100%', color: 'bg-red-500' }
+};
+
+const AIStockInsight: React.FC<AIStockInsightProps> = ({ ticker }) => {
+  const [insight, setInsight] = useState<StockInsight | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<APIError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadInsight = useCallback(async (force = false) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await apiService.getNSEStockData(ticker, { signal: controller.signal, force });
+      if (result.ok) {
+        setInsight(result.value);
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading AI stock insight:', err);
+    } finally {
+      if (abortRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  }, [ticker]);
+
+  useEffect(() => {
+    setInsight(null);
+    loadInsight();
+    return () => abortRef.current?.abort();
+  }, [loadInsight]);
+
+  const structured = insight?.structured;
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8 mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-white flex items-center">
+          <Brain className="w-6 h-6 mr-3 text-purple-400" />
+          AI Research Verdict
+        </h3>
+        <button
+          onClick={() => loadInsight(true)}
+          disabled={loading}
+          className="flex items-center text-sm text-green-400 hover:text-green-300 disabled:opacity-50"
+        >
+          {loading ? <Loader className="w-4 h-4 mr-1 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-1" />}
+          {loading ? 'Analyzing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <ErrorNotice error={error} onRetry={() => loadInsight(true)} />}
+
+      {loading && !structured && (
+        <div className="flex items-center text-gray-300 py-6">
+          <Loader className="w-5 h-5 mr-3 text-purple-400 animate-spin" />
+          Researching {ticker} news and generating a recommendation...
+        </div>
+      )}
+
+      {structured && (
+        <div className="space-y-6">
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="bg-slate-700/30 rounded-lg p-4">
+              <div className="text-gray-400 text-sm mb-2">Recommendation</div>
+              <span className={`inline-block px-4 py-1 rounded-full border font-bold uppercase tracking-wide ${recommendationStyles[structured.recommendation]}`}>
+                {structured.recommendation}
+              </span>
+              <div className="mt-3">
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>Confidence</span>
+                  <span>{Math.round(structured.confidence * 100)}%</span>
+                </div>
+                <div className="w-full bg-slate-700 rounded-full h-1.5">
+                  <div className="h-1.5 rounded-full bg-purple-500" style={{ width: `${structured.confidence * 100}%` }}></div>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-slate-700/30 rounded-lg p-4">
+              <div className="text-gray-400 text-sm mb-2 flex items-center">
+                <ShieldAlert className="w-4 h-4 mr-1" />
+                Risk Level
+              </div>
+              <div className="text-white font-semibold capitalize mb-3">{structured.riskLevel}</div>
+              <div className="w-full bg-slate-700 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${riskMeter[structured.riskLevel].color}`}
+                  style={{ width: riskMeter[structured.riskLevel].width }}
+                ></div>
+              </div>
+            </div>
+
+            <div className="bg-slate-700/30 rounded-lg p-4">
+              <div className="text-gray-400 text-sm mb-2 flex items-center">
+                <Target className="w-4 h-4 mr-1" />
+                Price Estimate
+              </div>
+              <div className="text-white font-semibold text-lg">
+                {structured.priceEstimate !== null ? `KES ${structured.priceEstimate.toFixed(2)}` : 'Not available'}
+              </div>
+            </div>
+          </div>
+
+          {structured.summary && (
+            <CitedText text={structured.summary} sources={insight.searchResults} showFootnotes={false} paragraphClassName="" />
+          )}
+
+          {structured.factors.length > 0 && (
+            <div>
+              <div className="text-white font-semibold mb-3">Key Factors</div>
+              <ul className="space-y-2">
+                {structured.factors.map((factor, index) => (
+                  <li key={index} className="flex items-start text-gray-300 text-sm">
+                    <span className="w-1.5 h-1.5 rounded-full bg-purple-400 mt-2 mr-3 flex-shrink-0"></span>
+                    <span><CitationLinks text={factor} sources={insight.searchResults} /></span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {insight.searchResults.length > 0 && (
+            <div className="pt-4 border-t border-slate-700">
+              <div className="text-gray-400 text-xs uppercase tracking-wide mb-2">Sources</div>
+              <ol className="space-y-1">
+                {insight.searchResults.map((source, index) => (
+                  <li key={index} className="text-sm">
+                    <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-gray-300 hover:text-green-400">
+                      <span className="text-green-400 mr-2">[{index + 1}]</span>
+                      {source.title}
+                    </a>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIStockInsight;
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Plus, Trash2, Inbox, CheckCheck } from 'lucide-react';
+import { NSEStock } from '../types/market';
+import { useQuotes } from '../hooks/useQuotes';
+import { useAlerts } from '../hooks/useAlerts';
+import { AlertKind, CrossDirection, alertStore, describeRule, requestNotificationPermission } from '../services/alerts';
+import ErrorNotice from './ErrorNotice';
+import StockSearchBox from './StockSearchBox';
+
+const kinds: Array<{ kind: AlertKind; label: string; unit: string; placeholder: string }> = [
+  { kind: 'price-cross', label: 'Price crosses', unit: 'KES', placeholder: 'e.g. 20.00' },
+  { kind: 'change-percent', label: 'Daily change', unit: '%', placeholder: 'e.g. 5' },
+  { kind: 'volume-spike', label: 'Volume spike', unit: 'x average', placeholder: 'e.g. 3' }
+];
+
+// Volume spikes only trigger upwards, so they have no direction picker
+const directionLabels: Record<Exclude<AlertKind, 'volume-spike'>, Record<CrossDirection, string>> = {
+  'price-cross': { above: 'Above', below: 'Below' },
+  'change-percent': { above: 'Up by', below: 'Down by' }
+};
+
+const notificationStatus = (): NotificationPermission | 'unsupported' =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+const Alerts: React.FC = () => {
+  const { quotes, loading, error, getQuote, refresh } = useQuotes();
+  const { rules, inbox, unreadCount } = useAlerts();
+  const [stock, setStock] = useState<NSEStock | null>(null);
+  const [kind, setKind] = useState<AlertKind>('price-cross');
+  const [direction, setDirection] = useState<CrossDirection>('above');
+  const [threshold, setThreshold] = useState('');
+  const [permission, setPermission] = useState(notificationStatus);
+
+  const parsedThreshold = Number(threshold);
+  const valid = !!stock && threshold.trim() !== '' && Number.isFinite(parsedThreshold) && parsedThreshold > 0;
+  const kindInfo = kinds.find(option => option.kind === kind) ?? kinds[0];
+
+  const handleCreate = () => {
+    if (!stock || !valid) return;
+    alertStore.addRule({ ticker: stock.Ticker, kind, direction: kind === 'volume-spike' ? 'above' : direction, threshold: parsedThreshold });
+    setThreshold('');
+  };
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 pt-8 pb-16">
+      <div className="container mx-auto px-6">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-white mb-4">Price & Volume Alerts</h1>
+          <p className="text-gray-300 text-lg max-w-2xl mx-auto">
+            Alerts are checked every time NSE quotes refresh, while this app is open in any tab.
+          </p>
+          <div className="mt-4 text-sm">
+            {permission === 'granted' ? (
+              <span className="text-green-400 flex items-center justify-center">
+                <Bell className="w-4 h-4 mr-2" />
+                Browser notifications are on
+              </span>
+            ) : permission === 'denied' ? (
+              <span className="text-gray-400 flex items-center justify-center">
+                <BellOff className="w-4 h-4 mr-2" />
+                Browser notifications are blocked; alerts still appear in the inbox below
+              </span>
+            ) : permission === 'unsupported' ? (
+              <span className="text-gray-400">This browser does not support notifications; alerts appear in the inbox below</span>
+            ) : (
+              <button onClick={handleEnableNotifications} className="text-green-400 hover:text-green-300 inline-flex items-center">
+                <Bell className="w-4 h-4 mr-2" />
+                Enable browser notifications
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="max-w-2xl mx-auto mb-8">
+            <ErrorNotice error={error} onRetry={refresh} />
+          </div>
+        )}
+
+        <div className="grid lg:grid-cols-2 gap-8">
+          {/* Rules */}
+          <div className="space-y-8">
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+              <h2 className="text-lg font-bold text-white mb-4 flex items-center">
+                <Plus className="w-5 h-5 mr-2 text-green-400" />
+                New Alert
+              </h2>
+              <div className="space-y-4">
+                <div>
+                  <StockSearchBox stocks={quotes} loading={loading} onSelect={setStock} />
+                  {stock && (
+                    <div className="mt-2 text-sm text-gray-300">
+                      {stock.Ticker} · {stock.Name} · KES {stock.Price.toFixed(2)}
+                    </div>
+                  )}
+                </div>
+                <div className="flex space-x-1 bg-slate-700/50 rounded-lg p-1">
+                  {kinds.map(option => (
+                    <button
+                      key={option.kind}
+                      onClick={() => setKind(option.kind)}
+                      className={`flex-1 px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                        kind === option.kind ? 'bg-green-600 text-white' : 'text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex space-x-2">
+                  {kind !== 'volume-spike' && (
+                    <select
+                      value={direction}
+                      onChange={(e) => setDirection(e.target.value as CrossDirection)}
+                      className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                    >
+                      <option value="above">{directionLabels[kind].above}</option>
+                      <option value="below">{directionLabels[kind].below}</option>
+                    </select>
+                  )}
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                    placeholder={kindInfo.placeholder}
+                    className="flex-1 min-w-0 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                  <span className="self-center text-gray-400 text-sm">{kindInfo.unit}</span>
+                  <button
+                    onClick={handleCreate}
+                    disabled={!valid}
+                    className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm rounded-lg"
+                  >
+                    Add
+                  </button>
+                </div>
+                {kind === 'volume-spike' && (
+                  <p className="text-gray-500 text-xs">
+                    Compared with the 20-day average from stored daily history; needs at least 20 days of recorded bars.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+              <h2 className="text-lg font-bold text-white mb-4 flex items-center">
+                <Bell className="w-5 h-5 mr-2 text-yellow-400" />
+                Alert Rules
+              </h2>
+              {rules.length === 0 ? (
+                <p className="text-gray-500 text-sm">No alerts yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {rules.map(rule => {
+                    const quote = getQuote(rule.ticker);
+                    return (
+                      <div key={rule.id} className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg">
+                        <div>
+                          <div className={rule.enabled ? 'text-white text-sm' : 'text-gray-500 text-sm line-through'}>{describeRule(rule)}</div>
+                          <div className="text-gray-400 text-xs">
+                            {quote ? `Now KES ${quote.Price.toFixed(2)}` : 'No quote'}
+                            {rule.lastTriggeredDate && ` · last fired ${rule.lastTriggeredDate}`}
+                            {rule.enabled && !rule.armed && ' · waiting to reset'}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => alertStore.setEnabled(rule.id, !rule.enabled)}
+                            className="text-gray-400 hover:text-white"
+                            title={rule.enabled ? 'Pause alert' : 'Resume alert'}
+                          >
+                            {rule.enabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                          </button>
+                          <button onClick={() => alertStore.removeRule(rule.id)} className="text-gray-500 hover:text-red-400" title="Delete alert">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Inbox */}
+          <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-bold text-white flex items-center">
+                <Inbox className="w-5 h-5 mr-2 text-blue-400" />
+                Inbox
+                {unreadCount > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-red-600 text-white text-xs">{unreadCount}</span>}
+              </h2>
+              <div className="flex items-center space-x-4 text-sm">
+                <button
+                  onClick={() => alertStore.markAllRead()}
+                  disabled={unreadCount === 0}
+                  className="text-gray-400 hover:text-white disabled:opacity-40 flex items-center"
+                >
+                  <CheckCheck className="w-4 h-4 mr-1" />
+                  Mark all read
+                </button>
+                <button onClick={() => alertStore.clearInbox()} disabled={inbox.length === 0} className="text-gray-400 hover:text-red-400 disabled:opacity-40">
+                  Clear
+                </button>
+              </div>
+            </div>
+            {inbox.length === 0 ? (
+              <p className="text-gray-500 text-sm">Triggered alerts will appear here.</p>
+            ) : (
+              <div className="space-y-2">
+                {inbox.map(event => (
+                  <div
+                    key={event.id}
+                    className={`p-3 rounded-lg border ${event.read ? 'bg-slate-700/20 border-slate-700' : 'bg-yellow-500/10 border-yellow-500/30'}`}
+                  >
+                    <div className="text-white text-sm">{event.message}</div>
+                    <div className="text-gray-400 text-xs mt-1">{new Date(event.triggeredAt).toLocaleString()}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Alerts;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { AlertTriangle, ExternalLink } from 'lucide-react';
+import { citedIndices, hasUncitedNumericClaim, parseCitations } from '../services/citations';
+
+interface Source {
+  title: string;
+  url: string;
+}
+
+interface CitedTextProps {
+  text: string;
+  sources: Source[];
+  showFootnotes?: boolean;
+  paragraphClassName?: string;
+}
+
+export const CitationLinks: React.FC<{ text: string; sources: Source[] }> = ({ text, sources }) => (
+  <>
+    {parseCitations(text).map((segment, index) => {
+      if (segment.type === 'text') {
+        return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+      }
+
+      const source = sources[segment.index - 1];
+      if (!source) {
+        // The model cited a source that was never provided
+        return <sup key={index} className="text-gray-500 ml-0.5">[{segment.index}?]</sup>;
+      }
+
+      return (
+        <sup key={index} className="ml-0.5">
+          <a
+            href={source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={source.title}
+            className="text-green-400 hover:text-green-300"
+          >
+            [{segment.index}]
+          </a>
+        </sup>
+      );
+    })}
+  </>
+);
+
+const CitedText: React.FC<CitedTextProps> = ({ text, sources, showFootnotes = true, paragraphClassName = 'mb-4' }) => {
+  const paragraphs = text.split('\n\n');
+  const cited = citedIndices(text).filter(index => sources[index - 1]);
+
+  return (
+    <div>
+      {paragraphs.map((paragraph, index) => (
+        <div key={index} className={paragraphClassName}>
+          <p className="text-gray-300 leading-relaxed">
+            <CitationLinks text={paragraph} sources={sources} />
+          </p>
+          {hasUncitedNumericClaim(paragraph) && (
+            <div className="mt-1 flex items-center text-xs text-yellow-400/80">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Contains figures without a cited source. Verify before relying on them.
+            </div>
+          )}
+        </div>
+      ))}
+
+      {showFootnotes && cited.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-slate-700">
+          <div className="text-gray-400 text-xs uppercase tracking-wide mb-2">Sources</div>
+          <ol className="space-y-1">
+            {cited.map(index => (
+              <li key={index} className="text-sm">
+                <a
+                  href={sources[index - 1].url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-gray-300 hover:text-green-400 inline-flex items-center"
+                >
+                  <span className="text-green-400 mr-2">[{index}]</span>
+                  {sources[index - 1].title}
+                  <ExternalLink className="w-3 h-3 ml-1 flex-shrink-0" />
+                </a>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CitedText;
@@ -0,0 +1,329 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, Trash2, ListOrdered } from 'lucide-react';
+import { CorporateAction, CorporateActionType } from '../types/market';
+import { useCorporateActions } from '../hooks/useCorporateActions';
+import { toDateKey } from '../services/priceHistory';
+import {
+  CalendarEvent,
+  NewCorporateAction,
+  actionTypeLabels,
+  calendarEvents,
+  corporateActionStore,
+  describeAction
+} from '../services/corporateActions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UPCOMING_DAYS = 90;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const typeColors: Record<CorporateActionType, string> = {
+  dividend: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30',
+  bonus: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  split: 'bg-purple-500/20 text-purple-300 border-purple-500/30',
+  rights: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30'
+};
+
+const eventLabels: Record<CalendarEvent['kind'], string> = {
+  'book-closure': 'Book closure',
+  payment: 'Payment'
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const monthKey = (year: number, month: number) => `${year}-${pad(month + 1)}`;
+
+const emptyForm = {
+  ticker: '',
+  type: 'dividend' as CorporateActionType,
+  dividendKind: 'final' as 'interim' | 'final' | 'special',
+  amountPerShare: '',
+  newShares: '',
+  heldShares: '',
+  subscriptionPrice: '',
+  bookClosure: '',
+  paymentDate: ''
+};
+
+// Builds the action from the form, or null while a required field is missing or invalid
+const toNewAction = (form: typeof emptyForm): NewCorporateAction | null => {
+  const ticker = form.ticker.trim().toUpperCase();
+  if (!ticker || !form.bookClosure) return null;
+  const positive = (value: string) => (Number(value) > 0 ? Number(value) : null);
+
+  if (form.type === 'dividend') {
+    const amountPerShare = positive(form.amountPerShare);
+    if (amountPerShare === null || !form.paymentDate) return null;
+    return { ticker, type: 'dividend', dividendKind: form.dividendKind, amountPerShare, bookClosure: form.bookClosure, paymentDate: form.paymentDate };
+  }
+
+  const newShares = positive(form.newShares);
+  const heldShares = positive(form.heldShares);
+  if (newShares === null || heldShares === null) return null;
+  const paymentDate = form.paymentDate || undefined;
+  if (form.type === 'rights') {
+    const subscriptionPrice = positive(form.subscriptionPrice);
+    if (subscriptionPrice === null) return null;
+    return { ticker, type: 'rights', newShares, heldShares, subscriptionPrice, bookClosure: form.bookClosure, paymentDate };
+  }
+  return { ticker, type: form.type, newShares, heldShares, bookClosure: form.bookClosure, paymentDate };
+};
+
+const CorporateActionsCalendar: React.FC = () => {
+  const actions = useCorporateActions();
+  const today = toDateKey(Date.now());
+  const [cursor, setCursor] = useState(() => ({ year: Number(today.slice(0, 4)), month: Number(today.slice(5, 7)) - 1 }));
+  const [typeFilter, setTypeFilter] = useState<CorporateActionType | 'all'>('all');
+  const [form, setForm] = useState(emptyForm);
+
+  const filtered = useMemo(
+    () => (typeFilter === 'all' ? actions : actions.filter(action => action.type === typeFilter)),
+    [actions, typeFilter]
+  );
+
+  const daysInMonth = new Date(cursor.year, cursor.month + 1, 0).getDate();
+  const leadingBlanks = new Date(cursor.year, cursor.month, 1).getDay();
+  const month = monthKey(cursor.year, cursor.month);
+  const monthEvents = calendarEvents(filtered, `${month}-01`, `${month}-${pad(daysInMonth)}`);
+  const upcoming = calendarEvents(filtered, today, toDateKey(Date.now() + UPCOMING_DAYS * DAY_MS));
+
+  const eventsByDate = monthEvents.reduce<Record<string, CalendarEvent[]>>((groups, event) => {
+    (groups[event.date] ??= []).push(event);
+    return groups;
+  }, {});
+
+  const shiftMonth = (offset: number) => {
+    setCursor(({ year, month }) => {
+      const date = new Date(year, month + offset, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+  };
+
+  const newAction = toNewAction(form);
+
+  const handleAdd = () => {
+    if (!newAction) return;
+    corporateActionStore.add(newAction);
+    setForm({ ...emptyForm, type: form.type });
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 pt-8 pb-16">
+      <div className="container mx-auto px-6">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-white mb-4">Corporate Actions Calendar</h1>
+          <p className="text-gray-300 text-lg max-w-2xl mx-auto">
+            Dividend book closures and payments, bonus issues, splits and rights issues for NSE listings.
+            Holdings in the portfolio analyzer are adjusted for these automatically.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-2 mb-8">
+          {(['all', 'dividend', 'bonus', 'split', 'rights'] as const).map(type => (
+            <button
+              key={type}
+              onClick={() => setTypeFilter(type)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                typeFilter === type ? 'bg-green-600 text-white' : 'bg-slate-800/50 text-gray-400 hover:text-white'
+              }`}
+            >
+              {type === 'all' ? 'All actions' : actionTypeLabels[type]}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          {/* Month grid */}
+          <div className="lg:col-span-2 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+            <div className="flex items-center justify-between mb-6">
+              <button onClick={() => shiftMonth(-1)} className="p-2 text-gray-400 hover:text-white" title="Previous month">
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <h2 className="text-lg font-bold text-white flex items-center">
+                <CalendarDays className="w-5 h-5 mr-2 text-green-400" />
+                {new Date(cursor.year, cursor.month, 1).toLocaleDateString('en-KE', { month: 'long', year: 'numeric' })}
+              </h2>
+              <button onClick={() => shiftMonth(1)} className="p-2 text-gray-400 hover:text-white" title="Next month">
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-7 gap-1 text-center text-xs text-gray-500 mb-1">
+              {WEEKDAYS.map(day => <div key={day}>{day}</div>)}
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {Array.from({ length: leadingBlanks }, (_, index) => <div key={`blank-${index}`} />)}
+              {Array.from({ length: daysInMonth }, (_, index) => {
+                const date = `${month}-${pad(index + 1)}`;
+                const events = eventsByDate[date] ?? [];
+                return (
+                  <div
+                    key={date}
+                    className={`min-h-24 p-1 rounded-lg border ${date === today ? 'border-green-500/60 bg-green-500/5' : 'border-slate-700 bg-slate-900/30'}`}
+                  >
+                    <div className="text-xs text-gray-400 text-right">{index + 1}</div>
+                    <div className="space-y-1">
+                      {events.map(event => (
+                        <div
+                          key={`${event.action.id}-${event.kind}`}
+                          className={`px-1 py-0.5 rounded border text-[10px] leading-tight ${typeColors[event.action.type]}`}
+                          title={`${eventLabels[event.kind]}: ${describeAction(event.action)}`}
+                        >
+                          <span className="font-semibold">{event.action.ticker}</span> {event.kind === 'payment' ? 'pay' : 'BC'}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="mt-4 text-xs text-gray-500">BC = book closure: holders on the register at this date are entitled.</div>
+          </div>
+
+          <div className="space-y-8">
+            {/* Upcoming */}
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+              <h2 className="text-lg font-bold text-white mb-4 flex items-center">
+                <ListOrdered className="w-5 h-5 mr-2 text-blue-400" />
+                Next {UPCOMING_DAYS} Days
+              </h2>
+              {upcoming.length === 0 ? (
+                <p className="text-gray-500 text-sm">No corporate actions coming up.</p>
+              ) : (
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {upcoming.map(event => (
+                    <div key={`${event.action.id}-${event.kind}`} className="flex items-start justify-between p-3 bg-slate-700/30 rounded-lg">
+                      <div>
+                        <div className="text-white text-sm">{describeAction(event.action)}</div>
+                        <div className="text-gray-400 text-xs">{eventLabels[event.kind]} · {event.date}</div>
+                      </div>
+                      {corporateActionStore.isCustom(event.action.id) && (
+                        <button
+                          onClick={() => corporateActionStore.remove(event.action.id)}
+                          className="ml-2 text-gray-500 hover:text-red-400"
+                          title="Remove action"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Add action */}
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+              <h2 className="text-lg font-bold text-white mb-4 flex items-center">
+                <Plus className="w-5 h-5 mr-2 text-green-400" />
+                Add Announcement
+              </h2>
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    value={form.ticker}
+                    onChange={(e) => setForm({ ...form, ticker: e.target.value.toUpperCase() })}
+                    placeholder="Ticker"
+                    className={inputClass}
+                  />
+                  <select
+                    value={form.type}
+                    onChange={(e) => setForm({ ...form, type: e.target.value as CorporateActionType })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(actionTypeLabels) as CorporateActionType[]).map(type => (
+                      <option key={type} value={type}>{actionTypeLabels[type]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {form.type === 'dividend' ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={form.dividendKind}
+                      onChange={(e) => setForm({ ...form, dividendKind: e.target.value as typeof form.dividendKind })}
+                      className={inputClass}
+                    >
+                      <option value="interim">Interim</option>
+                      <option value="final">Final</option>
+                      <option value="special">Special</option>
+                    </select>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={form.amountPerShare}
+                      onChange={(e) => setForm({ ...form, amountPerShare: e.target.value })}
+                      placeholder="KES per share"
+                      className={inputClass}
+                    />
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="number"
+                      value={form.newShares}
+                      onChange={(e) => setForm({ ...form, newShares: e.target.value })}
+                      placeholder="New shares"
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      value={form.heldShares}
+                      onChange={(e) => setForm({ ...form, heldShares: e.target.value })}
+                      placeholder="For every held"
+                      className={inputClass}
+                    />
+                    {form.type === 'rights' && (
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={form.subscriptionPrice}
+                        onChange={(e) => setForm({ ...form, subscriptionPrice: e.target.value })}
+                        placeholder="Subscription price (KES)"
+                        className={`${inputClass} col-span-2`}
+                      />
+                    )}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="text-xs text-gray-400">
+                    Book closure
+                    <input
+                      type="date"
+                      value={form.bookClosure}
+                      onChange={(e) => setForm({ ...form, bookClosure: e.target.value })}
+                      className={`${inputClass} mt-1`}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    {form.type === 'dividend' ? 'Payment date' : 'Credit date (optional)'}
+                    <input
+                      type="date"
+                      value={form.paymentDate}
+                      onChange={(e) => setForm({ ...form, paymentDate: e.target.value })}
+                      className={`${inputClass} mt-1`}
+                    />
+                  </label>
+                </div>
+
+                <button
+                  onClick={handleAdd}
+                  disabled={!newAction}
+                  className="w-full px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm rounded-lg"
+                >
+                  Add to Calendar
+                </button>
+                {newAction && <p className="text-gray-400 text-xs">{describeAction({ ...newAction, id: 'preview' } as CorporateAction)}</p>}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CorporateActionsCalendar;
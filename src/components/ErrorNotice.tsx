@@ -0,0 +1,81 @@
+import React from 'react';
+import { AlertCircle, KeyRound, Clock, ServerCrash, WifiOff, FileWarning, RefreshCw } from 'lucide-react';
+import { APIError } from '../services/errors';
+
+interface ErrorNoticeProps {
+  error: APIError;
+  onRetry?: () => void;
+  className?: string;
+}
+
+const describeError = (error: APIError): { title: string; detail: string; icon: React.ReactNode } => {
+  switch (error.kind) {
+    case 'network':
+      return {
+        title: `Can't reach ${error.source}`,
+        detail: 'Check your internet connection and try again.',
+        icon: <WifiOff className="w-5 h-5" />
+      };
+    case 'auth':
+      return {
+        title: `${error.source} rejected our credentials`,
+        detail: 'The API key is missing, invalid or expired. Check the keys in your environment configuration.',
+        icon: <KeyRound className="w-5 h-5" />
+      };
+    case 'rate_limit':
+      return {
+        title: `${error.source} rate limit reached`,
+        detail: error.retryAfterMs
+          ? `Too many requests. Try again in ${Math.ceil(error.retryAfterMs / 1000)} seconds.`
+          : 'Too many requests. Wait a minute before trying again.',
+        icon: <Clock className="w-5 h-5" />
+      };
+    case 'upstream':
+      return {
+        title: `${error.source} is having problems${error.status ? ` (HTTP ${error.status})` : ''}`,
+        detail: 'This is on their side. Try again in a few minutes.',
+        icon: <ServerCrash className="w-5 h-5" />
+      };
+    case 'parse':
+      return {
+        title: `${error.source} sent a response we couldn't read`,
+        detail: 'Retrying usually helps. If it keeps happening the service may have changed its format.',
+        icon: <FileWarning className="w-5 h-5" />
+      };
+    default:
+      return {
+        title: `${error.source} rejected the request${error.status ? ` (HTTP ${error.status})` : ''}`,
+        detail: error.message,
+        icon: <AlertCircle className="w-5 h-5" />
+      };
+  }
+};
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, className = '' }) => {
+  const { title, detail, icon } = describeError(error);
+
+  return (
+    <div className={`bg-red-500/10 border border-red-500/20 rounded-xl p-4 ${className}`}>
+      <div className="flex items-start justify-between">
+        <div className="flex items-start text-red-400">
+          <span className="mr-3 mt-0.5 flex-shrink-0">{icon}</span>
+          <div>
+            <div className="font-semibold">{title}</div>
+            <div className="text-sm text-gray-300 mt-1">{detail}</div>
+          </div>
+        </div>
+        {onRetry && error.kind !== 'auth' && (
+          <button
+            onClick={onRetry}
+            className="ml-4 flex items-center text-sm text-green-400 hover:text-green-300 flex-shrink-0"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Retry
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErrorNotice;
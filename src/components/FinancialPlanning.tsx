@@ -1,6 +1,8 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Calculator, Target, PiggyBank, TrendingUp, Calendar, DollarSign, Percent, Clock } from 'lucide-react';
-import { apiService } from '../services/api';
+import { apiService, isAbortError } from '../services/api';
+import { APIError, toAPIError } from '../services/errors';
+import ErrorNotice from './ErrorNotice';
 
 interface FinancialGoal {
   name: string;
@@ -26,6 +28,10 @@ const FinancialPlanning: React.FC = () => {
   const [activeCalculator, setActiveCalculator] = useState<'retirement' | 'goal' | 'compound' | 'advisor'>('retirement');
   const [aiAdvice, setAiAdvice] = useState<string | null>(null);
   const [loadingAdvice, setLoadingAdvice] = useState(false);
+  const [adviceError, setAdviceError] = useState<APIError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
   
   // Retirement Calculator State
   const [retirementData, setRetirementData] = useState({
@@ -67,15 +73,31 @@ const FinancialPlanning: React.FC = () => {
   });
 
   const getPersonalizedAdvice = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setLoadingAdvice(true);
+    setAiAdvice('');
+    setAdviceError(null);
     try {
-      const advice = await apiService.getFinancialPlanningAdvice(advisorProfile);
-      setAiAdvice(advice);
+      const result = await apiService.getFinancialPlanningAdvice(advisorProfile, {
+        signal: controller.signal,
+        onToken: (token) => setAiAdvice(prev => (prev ?? '') + token)
+      });
+      if (result.ok) {
+        setAiAdvice(result.value);
+      } else {
+        setAdviceError(result.error);
+      }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error getting advice:', error);
-      setAiAdvice('Unable to generate advice at this time. Please try again later.');
+      setAdviceError(toAPIError(error, 'AI service'));
     } finally {
-      setLoadingAdvice(false);
+      if (abortRef.current === controller) {
+        setLoadingAdvice(false);
+      }
     }
   };
 
@@ -651,8 +673,12 @@ const FinancialPlanning: React.FC = () => {
               {/* AI Advice */}
               <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8">
                 <h3 className="text-xl font-bold text-white mb-6">AI Financial Advisor</h3>
+
+                {adviceError && (
+                  <ErrorNotice error={adviceError} onRetry={getPersonalizedAdvice} className="mb-6" />
+                )}
                 
-                {loadingAdvice ? (
+                {loadingAdvice && !aiAdvice ? (
                   <div className="flex items-center justify-center py-12">
                     <div className="text-center">
                       <div className="w-12 h-12 border-4 border-green-400 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
@@ -667,7 +693,7 @@ const FinancialPlanning: React.FC = () => {
                       </div>
                     ))}
                   </div>
-                ) : (
+                ) : !adviceError && (
                   <div className="text-center py-12">
                     <Calculator className="w-16 h-16 text-gray-400 mx-auto mb-4" />
                     <p className="text-gray-400">Fill out your profile and click "Get Personalized Advice" to receive AI-powered investment recommendations tailored for Kenyan investors.</p>
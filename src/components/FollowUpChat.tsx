@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageSquare, Send, Loader, RotateCcw } from 'lucide-react';
+import { LLMUseCase } from '../config';
+import { apiService, isAbortError } from '../services/api';
+import { Conversation, createConversation } from '../services/conversation';
+import { APIError } from '../services/errors';
+import ErrorNotice from './ErrorNotice';
+
+interface FollowUpChatProps {
+  subject: string;
+  context: string;
+  useCase: LLMUseCase;
+  suggestions?: string[];
+}
+
+const FollowUpChat: React.FC<FollowUpChatProps> = ({ subject, context, useCase, suggestions = [] }) => {
+  const [conversation, setConversation] = useState<Conversation>(() => createConversation(subject, context));
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [streamingReply, setStreamingReply] = useState('');
+  const [error, setError] = useState<APIError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  // A new analysis starts a new conversation
+  useEffect(() => {
+    abortRef.current?.abort();
+    setConversation(createConversation(subject, context));
+    setPendingQuestion(null);
+    setStreamingReply('');
+    setError(null);
+  }, [subject, context]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [conversation.messages.length, streamingReply]);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || pendingQuestion) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPendingQuestion(trimmed);
+    setStreamingReply('');
+    setError(null);
+    setQuestion('');
+
+    try {
+      const result = await apiService.continueConversation(conversation, trimmed, useCase, {
+        signal: controller.signal,
+        onToken: (token) => setStreamingReply(prev => prev + token)
+      });
+      if (result.ok) {
+        setConversation(result.value);
+      } else {
+        setError(result.error);
+        setQuestion(trimmed);
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error asking follow-up question:', err);
+    } finally {
+      if (abortRef.current === controller) {
+        setPendingQuestion(null);
+        setStreamingReply('');
+      }
+    }
+  };
+
+  const reset = () => {
+    abortRef.current?.abort();
+    setConversation(createConversation(subject, context));
+    setPendingQuestion(null);
+    setStreamingReply('');
+    setError(null);
+  };
+
+  const renderBubble = (role: 'user' | 'assistant', content: string, key: React.Key) => (
+    <div key={key} className={`flex ${role === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-[85%] rounded-xl px-4 py-3 text-sm leading-relaxed whitespace-pre-wrap ${
+        role === 'user' ? 'bg-green-600/20 text-green-100 border border-green-500/20' : 'bg-slate-700/50 text-gray-300'
+      }`}>
+        {content}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8 mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-white flex items-center">
+          <MessageSquare className="w-6 h-6 mr-3 text-blue-400" />
+          Ask a Follow-up
+        </h3>
+        {conversation.messages.length > 0 && (
+          <button onClick={reset} className="flex items-center text-sm text-gray-400 hover:text-white">
+            <RotateCcw className="w-4 h-4 mr-1" />
+            New conversation
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3 max-h-96 overflow-y-auto mb-4">
+        {conversation.summarizedCount > 0 && (
+          <div className="text-center text-xs text-gray-500">
+            Earlier messages have been summarised to stay within the model's context limit.
+          </div>
+        )}
+        {conversation.messages.map((message, index) =>
+          renderBubble(message.role === 'user' ? 'user' : 'assistant', message.content, index)
+        )}
+        {pendingQuestion && renderBubble('user', pendingQuestion, 'pending')}
+        {pendingQuestion && (streamingReply
+          ? renderBubble('assistant', streamingReply, 'streaming')
+          : (
+            <div className="flex items-center text-gray-400 text-sm">
+              <Loader className="w-4 h-4 mr-2 animate-spin" />
+              Thinking...
+            </div>
+          ))}
+        <div ref={bottomRef} />
+      </div>
+
+      {error && <ErrorNotice error={error} onRetry={() => ask(question)} className="mb-4" />}
+
+      {conversation.messages.length === 0 && !pendingQuestion && suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {suggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => ask(suggestion)}
+              className="px-3 py-1.5 text-sm bg-slate-700/50 hover:bg-slate-700 text-gray-300 rounded-full border border-slate-600 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-3">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && ask(question)}
+          placeholder="Why? What if I hold for 5 years?"
+          disabled={pendingQuestion !== null}
+          className="flex-1 px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        />
+        {pendingQuestion ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-4 py-3 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-all duration-300"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={() => ask(question)}
+            disabled={!question.trim()}
+            className="px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-all duration-300"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FollowUpChat;
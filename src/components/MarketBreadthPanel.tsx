@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+import { useQuotes } from '../hooks/useQuotes';
+import { useIndexHistory } from '../hooks/useIndexHistory';
+import { IndexPoint, MarketBreadth, loadMarketBreadth } from '../services/marketBreadth';
+
+const TREND_WIDTH = 240;
+const TREND_HEIGHT = 48;
+const TREND_POINTS = 90;
+
+// Trend of one index level over the stored daily points
+const Sparkline: React.FC<{ values: number[]; color: string }> = ({ values, color }) => {
+  if (values.length < 2) {
+    return <div className="text-gray-500 text-xs">Trend builds up as quotes are recorded each day.</div>;
+  }
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const points = values
+    .map((value, index) => `${(index / (values.length - 1)) * TREND_WIDTH},${TREND_HEIGHT - ((value - min) / span) * TREND_HEIGHT}`)
+    .join(' ');
+  return (
+    <svg viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`} className="w-full h-12" preserveAspectRatio="none">
+      <polyline points={points} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const IndexLevel: React.FC<{ label: string; points: IndexPoint[]; level: (point: IndexPoint) => number; baseLevel: number | null; color: string }> = ({
+  label,
+  points,
+  level,
+  baseLevel,
+  color
+}) => {
+  const latest = points[points.length - 1];
+  const change = latest && baseLevel ? ((level(latest) - baseLevel) / baseLevel) * 100 : null;
+  return (
+    <div>
+      <div className="flex items-baseline justify-between">
+        <span className="text-gray-300 text-sm">{label}</span>
+        <span className="text-white font-semibold">
+          {latest ? level(latest).toFixed(2) : '—'}
+          {change !== null && (
+            <span className={`ml-2 text-xs ${change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+              {change > 0 ? '+' : ''}{change.toFixed(2)}%
+            </span>
+          )}
+        </span>
+      </div>
+      <Sparkline values={points.slice(-TREND_POINTS).map(level)} color={color} />
+    </div>
+  );
+};
+
+const MarketBreadthPanel: React.FC = () => {
+  const { quotes } = useQuotes();
+  const { points, base } = useIndexHistory();
+  const [breadth, setBreadth] = useState<MarketBreadth | null>(null);
+
+  useEffect(() => {
+    if (quotes.length === 0) return;
+    let cancelled = false;
+    loadMarketBreadth(quotes)
+      .then(result => {
+        if (!cancelled) setBreadth(result);
+      })
+      .catch(error => console.error('Error computing market breadth:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [quotes]);
+
+  const total = breadth ? breadth.advancers + breadth.decliners + breadth.unchanged : 0;
+  const share = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+
+  return (
+    <div className="p-4 bg-green-500/10 rounded-lg border border-green-500/20">
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-green-400 font-semibold">NSE Performance</span>
+        {breadth && breadth.advancers >= breadth.decliners ? (
+          <TrendingUp className="w-5 h-5 text-green-400" />
+        ) : (
+          <TrendingDown className="w-5 h-5 text-red-400" />
+        )}
+      </div>
+
+      {!breadth ? (
+        <div className="text-gray-400 text-sm">Waiting for quotes...</div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-green-400">{breadth.advancers} advancing</span>
+              <span className="text-gray-400">{breadth.unchanged} unchanged</span>
+              <span className="text-red-400">{breadth.decliners} declining</span>
+            </div>
+            <div className="flex h-2 rounded-full overflow-hidden bg-slate-700">
+              <div className="bg-green-500" style={{ width: `${share(breadth.advancers)}%` }} />
+              <div className="bg-slate-500" style={{ width: `${share(breadth.unchanged)}%` }} />
+              <div className="bg-red-500" style={{ width: `${share(breadth.decliners)}%` }} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div>
+              <div className="text-gray-400 text-xs">Volume</div>
+              <div className="text-white">{breadth.totalVolume.toLocaleString()}</div>
+            </div>
+            <div>
+              <div className="text-gray-400 text-xs">Turnover</div>
+              <div className="text-white">KES {Math.round(breadth.totalTurnover).toLocaleString()}</div>
+            </div>
+            <div>
+              <div className="text-gray-400 text-xs">52-week highs</div>
+              <div className="text-green-400">{breadth.newHighs.length > 0 ? breadth.newHighs.join(', ') : 'None'}</div>
+            </div>
+            <div>
+              <div className="text-gray-400 text-xs">52-week lows</div>
+              <div className="text-red-400">{breadth.newLows.length > 0 ? breadth.newLows.join(', ') : 'None'}</div>
+            </div>
+          </div>
+
+          <IndexLevel label="All-share (NASI-style)" points={points} level={point => point.allShare} baseLevel={base?.allShare ?? null} color="#4ade80" />
+          <IndexLevel label="Top 20 (NSE 20-style)" points={points} level={point => point.top20} baseLevel={base?.top20 ?? null} color="#60a5fa" />
+          <div className="text-gray-500 text-xs">
+            Computed locally from live prices, rebased to 100 on the first recorded day{points.length > 0 && ` (${points[0].date})`}.
+            New highs and lows use stored daily history.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarketBreadthPanel;
@@ -1,39 +1,96 @@
-import React, { useState, useEffect } from 'react';
-import { TrendingUp, TrendingDown, BarChart3, Globe, DollarSign, Percent, Activity, RefreshCw, ExternalLink, Loader } from 'lucide-react';
-import { apiService } from '../services/api';
-
-interface MarketOverview {
-  searchResults: Array<{
-    title: string;
-    description: string;
-    url: string;
-  }>;
-  analysis: string;
-  timestamp: string;
-}
+import React, { useState, useEffect, useRef } from 'react';
+import { BarChart3, Globe, DollarSign, Percent, Activity, RefreshCw, ExternalLink, Loader } from 'lucide-react';
+import { apiService, isAbortError, MarketOverview } from '../services/api';
+import { useQuotes } from '../hooks/useQuotes';
+import { quoteStore } from '../services/quoteStore';
+import { ScoredArticle } from '../services/sentiment';
+import { formatPublished } from '../services/news';
+import { APIError } from '../services/errors';
+import ErrorNotice from './ErrorNotice';
+import CitedText from './CitedText';
+import WatchlistButton from './WatchlistButton';
+import SectorHeatMap from './SectorHeatMap';
+import MarketBreadthPanel from './MarketBreadthPanel';
+import { sectorOf } from '../data/nseSectors';
 
 const MarketDashboard: React.FC = () => {
   const [marketData, setMarketData] = useState<MarketOverview | null>(null);
   const [loading, setLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [streamingAnalysis, setStreamingAnalysis] = useState('');
+  const [error, setError] = useState<APIError | null>(null);
+  const [newsSentiment, setNewsSentiment] = useState<Record<string, ScoredArticle>>({});
+  const abortRef = useRef<AbortController | null>(null);
+  const { quotes, getQuote } = useQuotes();
+
+  const fetchMarketData = async (force = false) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-  const fetchMarketData = async () => {
     setLoading(true);
+    setStreamingAnalysis('');
+    setError(null);
     try {
-      const data = await apiService.getKenyanMarketOverview();
-      setMarketData(data);
-      setLastUpdated(new Date());
+      const result = await apiService.getKenyanMarketOverview({
+        signal: controller.signal,
+        force,
+        onToken: (token) => setStreamingAnalysis(prev => prev + token)
+      });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setMarketData(result.value);
+      setLastUpdated(new Date(result.value.timestamp));
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching market data:', error);
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        setLoading(false);
+        setStreamingAnalysis('');
+      }
     }
   };
 
   useEffect(() => {
     fetchMarketData();
+    return () => abortRef.current?.abort();
   }, []);
 
+  // Tag each news item with the listed companies it mentions and its sentiment.
+  // Only the listing names matter here, so re-polled prices do not trigger a rescore.
+  const hasQuotes = quotes.length > 0;
+  useEffect(() => {
+    if (!marketData || !hasQuotes) return;
+    let cancelled = false;
+
+    const scoreNews = async () => {
+      try {
+        // Carry the parsed publish date through so sentiment history files each story under the day it ran
+        const articles = marketData.searchResults.map(({ title, url, description, publishedAt }) => ({
+          title,
+          url,
+          description,
+          published: publishedAt === null ? undefined : new Date(publishedAt).toISOString()
+        }));
+        const scored = await apiService.scoreNewsSentiment(articles, quoteStore.getSnapshot().quotes);
+        if (!cancelled) {
+          setNewsSentiment(Object.fromEntries(scored.map(article => [article.url, article])));
+        }
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Error scoring news sentiment:', error);
+      }
+    };
+
+    scoreNews();
+    return () => {
+      cancelled = true;
+    };
+  }, [marketData, hasQuotes]);
+
   const formatAnalysis = (analysis: string) => {
     const sections = analysis.split('\n\n');
     return sections.map((section, index) => (
@@ -61,7 +118,7 @@ const MarketDashboard: React.FC = () => {
               </div>
             )}
             <button
-              onClick={fetchMarketData}
+              onClick={() => fetchMarketData(true)}
               disabled={loading}
               className="flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg transition-all duration-300"
             >
@@ -75,7 +132,24 @@ const MarketDashboard: React.FC = () => {
           </div>
         </div>
 
-        {loading && !marketData && (
+        {error && !loading && (
+          <ErrorNotice error={error} onRetry={() => fetchMarketData(true)} className="mb-8" />
+        )}
+
+        {loading && streamingAnalysis && (
+          <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8 mb-8">
+            <h2 className="text-2xl font-bold text-white mb-6 flex items-center">
+              <Activity className="w-6 h-6 mr-3 text-green-400" />
+              AI Market Analysis
+              <Loader className="w-5 h-5 ml-3 text-green-400 animate-spin" />
+            </h2>
+            <div className="space-y-4">
+              {formatAnalysis(streamingAnalysis)}
+            </div>
+          </div>
+        )}
+
+        {loading && !marketData && !streamingAnalysis && (
           <div className="flex items-center justify-center py-20">
             <div className="text-center">
               <Loader className="w-12 h-12 text-green-400 animate-spin mx-auto mb-4" />
@@ -84,7 +158,7 @@ const MarketDashboard: React.FC = () => {
           </div>
         )}
 
-        {marketData && (
+        {marketData && !(loading && streamingAnalysis) && (
           <div className="space-y-8">
             {/* Market Analysis */}
             <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8">
@@ -92,8 +166,9 @@ const MarketDashboard: React.FC = () => {
                 <Activity className="w-6 h-6 mr-3 text-green-400" />
                 AI Market Analysis
               </h2>
-              <div className="space-y-4">
-                {formatAnalysis(marketData.analysis)}
+              <CitedText text={marketData.analysis} sources={marketData.searchResults} />
+              <div className="mt-4 text-xs text-gray-500">
+                Generated {new Date(marketData.timestamp).toLocaleString()} with prompt {marketData.prompt.id} v{marketData.prompt.version}
               </div>
             </div>
 
@@ -110,6 +185,7 @@ const MarketDashboard: React.FC = () => {
                     <div key={index} className="p-4 rounded-lg border border-slate-600/50 bg-slate-700/30">
                       <div className="flex items-start justify-between mb-3">
                         <h3 className="text-white font-semibold text-sm leading-tight pr-4">
+                          <span className="text-green-400 mr-2">[{index + 1}]</span>
                           {news.title}
                         </h3>
                         <a
@@ -124,6 +200,33 @@ const MarketDashboard: React.FC = () => {
                       <p className="text-gray-300 text-sm leading-relaxed">
                         {news.description}
                       </p>
+                      <div className="flex items-center text-gray-500 text-xs mt-2 space-x-2">
+                        <span>{news.source}</span>
+                        <span>•</span>
+                        <span>{formatPublished(news.publishedAt)}</span>
+                        {news.duplicateCount > 0 && (
+                          <>
+                            <span>•</span>
+                            <span>+{news.duplicateCount} more {news.duplicateCount === 1 ? 'outlet' : 'outlets'}</span>
+                          </>
+                        )}
+                      </div>
+                      {newsSentiment[news.url] && (
+                        <div className="flex flex-wrap items-center gap-2 mt-3">
+                          {newsSentiment[news.url].tickers.map(ticker => (
+                            <span key={ticker} className="px-2 py-0.5 rounded bg-slate-600/50 text-gray-300 text-xs font-semibold">
+                              {ticker}
+                            </span>
+                          ))}
+                          <span className={`px-2 py-0.5 rounded text-xs font-semibold ${
+                            newsSentiment[news.url].label === 'positive' ? 'text-emerald-400 bg-emerald-500/20' :
+                            newsSentiment[news.url].label === 'negative' ? 'text-red-400 bg-red-500/20' :
+                            'text-gray-400 bg-slate-600/40'
+                          }`}>
+                            {newsSentiment[news.url].label} {newsSentiment[news.url].score.toFixed(2)}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -137,15 +240,7 @@ const MarketDashboard: React.FC = () => {
                 </h2>
                 
                 <div className="space-y-6">
-                  <div className="p-4 bg-green-500/10 rounded-lg border border-green-500/20">
-                    <div className="flex items-center justify-between mb-4">
-                      <span className="text-green-400 font-semibold">NSE Performance</span>
-                      <TrendingUp className="w-5 h-5 text-green-400" />
-                    </div>
-                    <div className="text-gray-300 text-sm">
-                      Track NSE 20 Share Index and All Share Index performance
-                    </div>
-                  </div>
+                  <MarketBreadthPanel />
 
                   <div className="p-4 bg-blue-500/10 rounded-lg border border-blue-500/20">
                     <div className="flex items-center justify-between mb-4">
@@ -185,29 +280,52 @@ const MarketDashboard: React.FC = () => {
               </h2>
               <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {[
-                  { symbol: 'SCOM', name: 'Safaricom PLC', sector: 'Telecommunications' },
-                  { symbol: 'EQTY', name: 'Equity Group Holdings', sector: 'Banking' },
-                  { symbol: 'KCB', name: 'KCB Group PLC', sector: 'Banking' },
-                  { symbol: 'EABL', name: 'East African Breweries', sector: 'Consumer Goods' },
-                  { symbol: 'BAMB', name: 'Bamburi Cement', sector: 'Construction' },
-                  { symbol: 'COOP', name: 'Co-operative Bank', sector: 'Banking' }
-                ].map((stock, index) => (
-                  <div key={index} className="p-4 bg-slate-700/30 rounded-lg border border-slate-600/50">
-                    <div className="flex items-center justify-between mb-3">
-                      <div className="w-10 h-10 bg-gradient-to-r from-green-600 to-red-600 rounded-lg flex items-center justify-center text-white font-bold text-sm">
-                        {stock.symbol.substring(0, 2)}
+                  { symbol: 'SCOM', name: 'Safaricom PLC' },
+                  { symbol: 'EQTY', name: 'Equity Group Holdings' },
+                  { symbol: 'KCB', name: 'KCB Group PLC' },
+                  { symbol: 'EABL', name: 'East African Breweries' },
+                  { symbol: 'BAMB', name: 'Bamburi Cement' },
+                  { symbol: 'COOP', name: 'Co-operative Bank' }
+                ].map((stock, index) => {
+                  const quote = getQuote(stock.symbol);
+                  return (
+                    <div key={index} className="p-4 bg-slate-700/30 rounded-lg border border-slate-600/50">
+                      <div className="flex items-center justify-between mb-3">
+                        <div className="w-10 h-10 bg-gradient-to-r from-green-600 to-red-600 rounded-lg flex items-center justify-center text-white font-bold text-sm">
+                          {stock.symbol.substring(0, 2)}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <div className="text-gray-400 text-xs">{sectorOf(stock.symbol)}</div>
+                          <WatchlistButton ticker={stock.symbol} compact />
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-white font-semibold">{stock.symbol}</span>
+                        {quote && (
+                          <span className="text-white font-semibold">KES {quote.Price.toFixed(2)}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-300 text-sm">{stock.name}</span>
+                        {quote && (
+                          <span className={`text-sm ${quote.Change > 0 ? 'text-green-400' : quote.Change < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                            {quote.Change > 0 ? '+' : ''}{quote.Change.toFixed(2)}
+                          </span>
+                        )}
                       </div>
-                      <div className="text-gray-400 text-xs">{stock.sector}</div>
                     </div>
-                    <div className="text-white font-semibold mb-1">{stock.symbol}</div>
-                    <div className="text-gray-300 text-sm">{stock.name}</div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           </div>
         )}
 
+        {/* Sector Heat Map */}
+        <div className="mt-8">
+          <SectorHeatMap />
+        </div>
+
         {/* Disclaimer */}
         <div className="mt-12 p-6 bg-slate-800/30 backdrop-blur-sm border border-slate-700 rounded-xl">
           <div className="text-center text-gray-300 text-sm">
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Newspaper, RefreshCw, ExternalLink } from 'lucide-react';
+import { NSEStock, DailyBar, DailySentiment } from '../types/market';
+import { apiService, isAbortError } from '../services/api';
+import { priceHistory, toDateKey } from '../services/priceHistory';
+import { ScoredArticle, SentimentLabel, sentimentHistory } from '../services/sentiment';
+import { APIError } from '../services/errors';
+import ErrorNotice from './ErrorNotice';
+
+interface NewsSentimentProps {
+  stock: Pick<NSEStock, 'Ticker' | 'Name'>;
+}
+
+interface TrendPoint {
+  date: string;
+  close: number | null;
+  sentiment: DailySentiment | null;
+}
+
+const TREND_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+
+const labelStyles: Record<SentimentLabel, string> = {
+  positive: 'text-emerald-400 bg-emerald-500/20',
+  negative: 'text-red-400 bg-red-500/20',
+  neutral: 'text-gray-400 bg-slate-600/40'
+};
+
+const formatScore = (score: number) => `${score > 0 ? '+' : ''}${score.toFixed(2)}`;
+
+// Merges daily closes and sentiment aggregates on the same date axis
+const buildTrend = (bars: DailyBar[], days: DailySentiment[]): TrendPoint[] => {
+  const points = new Map<string, TrendPoint>();
+  bars.forEach(bar => points.set(bar.date, { date: bar.date, close: bar.close, sentiment: null }));
+  days.forEach(day => {
+    const point = points.get(day.date) ?? { date: day.date, close: null, sentiment: null };
+    points.set(day.date, { ...point, sentiment: day });
+  });
+  return [...points.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const TrendChart: React.FC<{ points: TrendPoint[] }> = ({ points }) => {
+  const closes = points.filter(point => point.close !== null).map(point => point.close as number);
+  const min = Math.min(...closes);
+  const max = Math.max(...closes);
+  const step = CHART_WIDTH / Math.max(points.length, 1);
+  const mid = CHART_HEIGHT / 2;
+  const x = (index: number) => index * step + step / 2;
+  const y = (close: number) => (max === min ? mid : CHART_HEIGHT - ((close - min) / (max - min)) * (CHART_HEIGHT - 10) - 5);
+
+  const line = points
+    .map((point, index) => (point.close === null ? null : `${x(index)},${y(point.close)}`))
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-36" preserveAspectRatio="none">
+      <line x1={0} x2={CHART_WIDTH} y1={mid} y2={mid} stroke="#475569" strokeDasharray="4 4" strokeWidth={1} />
+      {points.map((point, index) => {
+        if (!point.sentiment) return null;
+        const height = Math.abs(point.sentiment.averageScore) * (mid - 5);
+        return (
+          <rect
+            key={point.date}
+            x={x(index) - step * 0.3}
+            y={point.sentiment.averageScore >= 0 ? mid - height : mid}
+            width={step * 0.6}
+            height={Math.max(height, 1)}
+            fill={point.sentiment.averageScore >= 0 ? '#34d399' : '#f87171'}
+            opacity={0.6}
+          >
+            <title>{`${point.date}: sentiment ${formatScore(point.sentiment.averageScore)} (${point.sentiment.articleCount} articles)`}</title>
+          </rect>
+        );
+      })}
+      {closes.length > 1 && <polyline points={line} fill="none" stroke="#60a5fa" strokeWidth={2} />}
+    </svg>
+  );
+};
+
+const NewsSentiment: React.FC<NewsSentimentProps> = ({ stock }) => {
+  const [articles, setArticles] = useState<ScoredArticle[]>([]);
+  const [trend, setTrend] = useState<TrendPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<APIError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadTrend = useCallback(async () => {
+    const fromDate = toDateKey(Date.now() - TREND_DAYS * DAY_MS);
+    const days = sentimentHistory.getDaily(stock.Ticker, fromDate);
+    let bars: DailyBar[] = [];
+    try {
+      bars = await priceHistory.getDailyBars(stock.Ticker, fromDate);
+    } catch (err) {
+      console.error('Error loading price history:', err);
+    }
+    setTrend(buildTrend(bars, days));
+  }, [stock.Ticker]);
+
+  const loadSentiment = useCallback(async (force = false) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await apiService.getTickerSentiment(stock, { signal: controller.signal, force });
+      if (result.ok) {
+        setArticles(result.value);
+      } else {
+        setError(result.error);
+      }
+      await loadTrend();
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading news sentiment:', err);
+    } finally {
+      if (abortRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  }, [stock, loadTrend]);
+
+  useEffect(() => {
+    loadSentiment();
+    return () => abortRef.current?.abort();
+  }, [loadSentiment]);
+
+  const latest = [...trend].reverse().find(point => point.sentiment !== null)?.sentiment ?? null;
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8 mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-white flex items-center">
+          <Newspaper className="w-6 h-6 mr-3 text-purple-400" />
+          News Sentiment
+        </h3>
+        <button
+          onClick={() => loadSentiment(true)}
+          disabled={loading}
+          className="p-2 text-gray-400 hover:text-white disabled:opacity-50"
+          title="Refresh news"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <ErrorNotice error={error} onRetry={() => loadSentiment(true)} className="mb-6" />}
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <div className="md:col-span-2">
+          <div className="flex items-center justify-between text-sm text-gray-400 mb-2">
+            <span>Last {TREND_DAYS} days</span>
+            <span className="flex items-center space-x-4">
+              <span className="flex items-center"><span className="w-3 h-0.5 bg-blue-400 mr-2" />Close</span>
+              <span className="flex items-center"><span className="w-3 h-3 bg-emerald-400/60 mr-2" />Sentiment</span>
+            </span>
+          </div>
+          {latest ? (
+            <TrendChart points={trend} />
+          ) : (
+            <div className="h-36 flex items-center justify-center text-gray-500 text-sm">
+              {loading ? 'Scoring news...' : 'No scored news for this stock yet.'}
+            </div>
+          )}
+          {latest && (
+            <div className="mt-2 text-sm text-gray-400">
+              {latest.date}: {formatScore(latest.averageScore)} average across {latest.articleCount} articles
+              ({latest.positive} positive, {latest.negative} negative, {latest.neutral} neutral)
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3 max-h-64 overflow-y-auto">
+          {articles.map(article => (
+            <a
+              key={article.url}
+              href={article.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block p-3 bg-slate-700/30 hover:bg-slate-700/50 rounded-lg transition-colors"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <span className="text-gray-200 text-sm line-clamp-2">{article.title}</span>
+                <ExternalLink className="w-3 h-3 text-gray-500 flex-shrink-0 mt-1" />
+              </div>
+              <span className={`inline-block mt-2 px-2 py-0.5 rounded text-xs font-semibold ${labelStyles[article.label]}`}>
+                {article.label} {formatScore(article.score)}
+              </span>
+            </a>
+          ))}
+          {!loading && articles.length === 0 && !error && (
+            <div className="text-gray-500 text-sm">No recent news found.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewsSentiment;
@@ -1,11 +1,25 @@
-import React, { useState } from 'react';
-import { PieChart, BarChart3, TrendingUp, Shield, AlertTriangle, Plus, X, DollarSign } from 'lucide-react';
-import { apiService } from '../services/api';
+import React, { useState, useEffect, useRef } from 'react';
+import { PieChart, BarChart3, TrendingUp, Shield, AlertTriangle, Plus, X, DollarSign, CalendarDays, Coins } from 'lucide-react';
+import { apiService, isAbortError } from '../services/api';
+import { APIError } from '../services/errors';
+import { useQuotes } from '../hooks/useQuotes';
+import { useCorporateActions } from '../hooks/useCorporateActions';
+import { useFundamentals } from '../hooks/useFundamentals';
+import { toDateKey } from '../services/priceHistory';
+import {
+  AdjustedHolding,
+  DIVIDEND_WITHHOLDING_RATE,
+  HoldingPosition,
+  applyCorporateActions,
+  describeAction,
+  projectDividendIncome
+} from '../services/corporateActions';
+import ErrorNotice from './ErrorNotice';
+import FollowUpChat from './FollowUpChat';
 
-interface Holding {
-  symbol: string;
-  shares: number;
-  avgPrice: number;
+type Holding = HoldingPosition;
+
+interface PricedHolding extends AdjustedHolding {
   currentPrice: number;
 }
 
@@ -19,26 +33,56 @@ interface PortfolioMetrics {
 
 const PortfolioAnalyzer: React.FC = () => {
   const [holdings, setHoldings] = useState<Holding[]>([
-    { symbol: 'AAPL', shares: 50, avgPrice: 150.00, currentPrice: 192.53 },
-    { symbol: 'MSFT', shares: 25, avgPrice: 300.00, currentPrice: 418.24 },
-    { symbol: 'GOOGL', shares: 15, avgPrice: 100.00, currentPrice: 138.21 }
+    { symbol: 'SCOM', shares: 1000, avgPrice: 15.50, acquiredOn: '2025-01-02' },
+    { symbol: 'EQTY', shares: 200, avgPrice: 42.00, acquiredOn: '2025-01-02' },
+    { symbol: 'KCB', shares: 300, avgPrice: 33.00, acquiredOn: '2025-01-02' }
   ]);
+  const [takeUpRights, setTakeUpRights] = useState(false);
+  const { getQuote } = useQuotes();
+  const actions = useCorporateActions();
+  const { byTicker: fundamentals } = useFundamentals();
+  const today = toDateKey(Date.now());
+
+  // Share counts and cost basis reflect bonus issues, splits and (optionally) rights taken up since purchase.
+  // Holdings without a live quote (e.g. before the first poll) are valued at cost.
+  const pricedHoldings: PricedHolding[] = holdings.map(holding => {
+    const adjusted = applyCorporateActions(holding, actions, today, { takeUpRights });
+    return { ...adjusted, currentPrice: getQuote(holding.symbol)?.Price ?? adjusted.avgPrice };
+  });
+
+  const projectedDividends = projectDividendIncome(
+    pricedHoldings,
+    actions,
+    fundamentals,
+    today,
+    toDateKey(Date.now() + 365 * 24 * 60 * 60 * 1000)
+  );
+  const projectedGross = projectedDividends.reduce((total, dividend) => total + dividend.gross, 0);
+  const projectedNet = projectedDividends.reduce((total, dividend) => total + dividend.net, 0);
+  const appliedActions = pricedHoldings
+    .flatMap(holding => holding.applied)
+    .sort((a, b) => b.action.bookClosure.localeCompare(a.action.bookClosure));
   
   const [newHolding, setNewHolding] = useState({
     symbol: '',
     shares: '',
-    avgPrice: ''
+    avgPrice: '',
+    acquiredOn: today
   });
 
   const [showAddForm, setShowAddForm] = useState(false);
   const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
   const [loadingAnalysis, setLoadingAnalysis] = useState(false);
+  const [analysisError, setAnalysisError] = useState<APIError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const calculateMetrics = (): PortfolioMetrics => {
     let totalValue = 0;
     let totalCost = 0;
     
-    holdings.forEach(holding => {
+    pricedHoldings.forEach(holding => {
       totalValue += holding.shares * holding.currentPrice;
       totalCost += holding.shares * holding.avgPrice;
     });
@@ -62,26 +106,14 @@ const PortfolioAnalyzer: React.FC = () => {
   const addHolding = () => {
     if (!newHolding.symbol || !newHolding.shares || !newHolding.avgPrice) return;
     
-    // Mock current price (in production, fetch from API)
-    const mockCurrentPrices: Record<string, number> = {
-      'AAPL': 192.53,
-      'MSFT': 418.24,
-      'GOOGL': 138.21,
-      'TSLA': 238.45,
-      'AMZN': 155.89,
-      'NVDA': 722.48
-    };
-    
-    const currentPrice = mockCurrentPrices[newHolding.symbol.toUpperCase()] || parseFloat(newHolding.avgPrice);
-    
     setHoldings([...holdings, {
       symbol: newHolding.symbol.toUpperCase(),
       shares: parseFloat(newHolding.shares),
       avgPrice: parseFloat(newHolding.avgPrice),
-      currentPrice
+      acquiredOn: newHolding.acquiredOn || today
     }]);
     
-    setNewHolding({ symbol: '', shares: '', avgPrice: '' });
+    setNewHolding({ symbol: '', shares: '', avgPrice: '', acquiredOn: today });
     setShowAddForm(false);
   };
 
@@ -92,22 +124,37 @@ const PortfolioAnalyzer: React.FC = () => {
   const getAIPortfolioAnalysis = async () => {
     if (holdings.length === 0) return;
     
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setLoadingAnalysis(true);
+    setAiAnalysis('');
+    setAnalysisError(null);
     try {
-      const analysis = await apiService.getPortfolioAnalysis(holdings);
-      setAiAnalysis(analysis);
+      const result = await apiService.getPortfolioAnalysis(pricedHoldings, {
+        signal: controller.signal,
+        onToken: (token) => setAiAnalysis(prev => (prev ?? '') + token)
+      });
+      if (result.ok) {
+        setAiAnalysis(result.value);
+      } else {
+        setAnalysisError(result.error);
+      }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error getting portfolio analysis:', error);
-      setAiAnalysis('Unable to generate analysis at this time. Please try again later.');
     } finally {
-      setLoadingAnalysis(false);
+      if (abortRef.current === controller) {
+        setLoadingAnalysis(false);
+      }
     }
   };
   const metrics = calculateMetrics();
 
   const getPortfolioAllocation = () => {
     const totalValue = metrics.totalValue;
-    return holdings.map(holding => ({
+    return pricedHoldings.map(holding => ({
       ...holding,
       value: holding.shares * holding.currentPrice,
       allocation: ((holding.shares * holding.currentPrice) / totalValue) * 100
@@ -122,6 +169,18 @@ const PortfolioAnalyzer: React.FC = () => {
 
   const allocation = getPortfolioAllocation();
 
+  const followUpContext = [
+    'Holdings:',
+    ...allocation.map(h =>
+      `- ${h.symbol}: ${h.shares} shares, avg price ${h.avgPrice.toFixed(2)}, current price ${h.currentPrice.toFixed(2)}, ${h.allocation.toFixed(1)}% of portfolio`
+    ),
+    `Total value: ${metrics.totalValue.toFixed(2)}, gain/loss: ${metrics.totalGainLossPercent.toFixed(2)}%`,
+    `Projected dividend income over the next 12 months: ${projectedGross.toFixed(2)} gross, ${projectedNet.toFixed(2)} after withholding tax`,
+    '',
+    'Previous analysis:',
+    aiAnalysis ?? ''
+  ].join('\n');
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 pt-8 pb-16">
       <div className="container mx-auto px-6">
@@ -141,7 +200,7 @@ const PortfolioAnalyzer: React.FC = () => {
                 <DollarSign className="w-6 h-6 text-blue-400" />
                 <span className="text-gray-400 text-sm">Total Value</span>
               </div>
-              <div className="text-2xl font-bold text-white">${metrics.totalValue.toLocaleString()}</div>
+              <div className="text-2xl font-bold text-white">KES {metrics.totalValue.toLocaleString()}</div>
             </div>
             
             <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-6">
@@ -150,7 +209,7 @@ const PortfolioAnalyzer: React.FC = () => {
                 <span className="text-gray-400 text-sm">Total P&L</span>
               </div>
               <div className={`text-2xl font-bold ${metrics.totalGainLoss >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                ${metrics.totalGainLoss.toLocaleString()} ({metrics.totalGainLossPercent.toFixed(2)}%)
+                KES {metrics.totalGainLoss.toLocaleString()} ({metrics.totalGainLossPercent.toFixed(2)}%)
               </div>
             </div>
             
@@ -197,6 +256,14 @@ const PortfolioAnalyzer: React.FC = () => {
                 >
                   {loadingAnalysis ? 'Analyzing...' : 'AI Analysis'}
                 </button>
+                {loadingAnalysis && (
+                  <button
+                    onClick={() => abortRef.current?.abort()}
+                    className="flex items-center px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-all duration-300"
+                  >
+                    Stop
+                  </button>
+                )}
               </div>
             </div>
             
@@ -229,12 +296,22 @@ const PortfolioAnalyzer: React.FC = () => {
                             <span className="text-white font-semibold">{holding.symbol}</span>
                           </div>
                         </td>
-                        <td className="px-6 py-4 text-right text-gray-300">{holding.shares}</td>
-                        <td className="px-6 py-4 text-right text-gray-300">${holding.avgPrice.toFixed(2)}</td>
-                        <td className="px-6 py-4 text-right text-gray-300">${holding.currentPrice.toFixed(2)}</td>
-                        <td className="px-6 py-4 text-right text-white font-semibold">${holding.value.toLocaleString()}</td>
+                        <td className="px-6 py-4 text-right text-gray-300">
+                          {holding.shares.toLocaleString()}
+                          {holding.shares !== holding.originalShares && (
+                            <div className="text-xs text-gray-500">bought {holding.originalShares.toLocaleString()}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right text-gray-300">
+                          KES {holding.avgPrice.toFixed(2)}
+                          {holding.avgPrice !== holding.originalAvgPrice && (
+                            <div className="text-xs text-gray-500">paid {holding.originalAvgPrice.toFixed(2)}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right text-gray-300">KES {holding.currentPrice.toFixed(2)}</td>
+                        <td className="px-6 py-4 text-right text-white font-semibold">KES {holding.value.toLocaleString()}</td>
                         <td className={`px-6 py-4 text-right font-semibold ${pl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                          ${pl.toLocaleString()} ({plPercent.toFixed(2)}%)
+                          KES {pl.toLocaleString()} ({plPercent.toFixed(2)}%)
                         </td>
                         <td className="px-6 py-4 text-right text-gray-300">{holding.allocation.toFixed(1)}%</td>
                         <td className="px-6 py-4 text-right">
@@ -254,6 +331,106 @@ const PortfolioAnalyzer: React.FC = () => {
           </div>
         </div>
 
+        {/* Corporate Actions & Dividend Income */}
+        <div className="max-w-6xl mx-auto mb-8 grid md:grid-cols-2 gap-8">
+          <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold text-white flex items-center">
+                <CalendarDays className="w-6 h-6 mr-3 text-purple-400" />
+                Corporate Actions Applied
+              </h3>
+              <label className="flex items-center text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={takeUpRights}
+                  onChange={(e) => setTakeUpRights(e.target.checked)}
+                  className="mr-2 accent-blue-600"
+                />
+                Took up rights
+              </label>
+            </div>
+            {appliedActions.length === 0 ? (
+              <p className="text-gray-500 text-sm">No dividends, bonus issues, splits or rights since these holdings were bought.</p>
+            ) : (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {appliedActions.map((entry, index) => (
+                  <div key={`${entry.action.id}-${index}`} className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg">
+                    <div>
+                      <div className="text-white text-sm">{describeAction(entry.action)}</div>
+                      <div className="text-gray-400 text-xs">Book closure {entry.action.bookClosure}</div>
+                    </div>
+                    <div className="text-right text-sm">
+                      {entry.action.type === 'dividend' ? (
+                        <span className="text-emerald-400">
+                          KES {entry.cashReceived.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                          {entry.action.paymentDate > today && <span className="block text-xs text-gray-400">due {entry.action.paymentDate}</span>}
+                        </span>
+                      ) : (
+                        <span className="text-blue-400">{entry.sharesBefore.toLocaleString()} → {entry.sharesAfter.toLocaleString()} shares</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="mt-4 pt-4 border-t border-slate-700 flex justify-between text-sm">
+              <span className="text-gray-400">Dividends received (gross)</span>
+              <span className="text-white font-semibold">
+                KES {pricedHoldings.reduce((total, holding) => total + holding.dividendsReceived, 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              </span>
+            </div>
+            {pricedHoldings.some(holding => holding.dividendsPending > 0) && (
+              <div className="mt-2 flex justify-between text-sm">
+                <span className="text-gray-400">Declared, awaiting payment</span>
+                <span className="text-white font-semibold">
+                  KES {pricedHoldings.reduce((total, holding) => total + holding.dividendsPending, 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8">
+            <h3 className="text-xl font-bold text-white mb-6 flex items-center">
+              <Coins className="w-6 h-6 mr-3 text-emerald-400" />
+              Projected Dividend Income
+            </h3>
+            <div className="grid grid-cols-2 gap-4 mb-6">
+              <div className="p-4 bg-slate-700/30 rounded-lg">
+                <div className="text-gray-400 text-sm">Next 12 months (gross)</div>
+                <div className="text-2xl font-bold text-white">KES {Math.round(projectedGross).toLocaleString()}</div>
+              </div>
+              <div className="p-4 bg-slate-700/30 rounded-lg">
+                <div className="text-gray-400 text-sm">After {(DIVIDEND_WITHHOLDING_RATE * 100).toFixed(0)}% withholding tax</div>
+                <div className="text-2xl font-bold text-emerald-400">KES {Math.round(projectedNet).toLocaleString()}</div>
+              </div>
+            </div>
+            {projectedDividends.length === 0 ? (
+              <p className="text-gray-500 text-sm">No dividends announced or on record for these holdings.</p>
+            ) : (
+              <div className="space-y-2">
+                {projectedDividends.map((dividend, index) => (
+                  <div key={`${dividend.symbol}-${index}`} className="flex items-center justify-between text-sm p-3 bg-slate-700/30 rounded-lg">
+                    <div>
+                      <span className="text-white font-semibold">{dividend.symbol}</span>
+                      <span className="text-gray-400">
+                        {' '}· KES {dividend.amountPerShare.toFixed(2)} × {dividend.shares.toLocaleString()}
+                      </span>
+                      <div className="text-gray-500 text-xs">
+                        {dividend.source === 'announced'
+                          ? `Announced, paid ${dividend.paymentDate}`
+                          : 'Estimated from last reported annual dividend'}
+                      </div>
+                    </div>
+                    <span className={dividend.source === 'announced' ? 'text-emerald-400' : 'text-gray-300'}>
+                      KES {Math.round(dividend.gross).toLocaleString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Add Holding Form */}
         {showAddForm && (
           <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
@@ -267,7 +444,7 @@ const PortfolioAnalyzer: React.FC = () => {
                     type="text"
                     value={newHolding.symbol}
                     onChange={(e) => setNewHolding({ ...newHolding, symbol: e.target.value.toUpperCase() })}
-                    placeholder="AAPL"
+                    placeholder="SCOM"
                     className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
@@ -290,10 +467,22 @@ const PortfolioAnalyzer: React.FC = () => {
                     step="0.01"
                     value={newHolding.avgPrice}
                     onChange={(e) => setNewHolding({ ...newHolding, avgPrice: e.target.value })}
-                    placeholder="150.00"
+                    placeholder="15.50"
                     className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-gray-300 mb-2">Purchase Date</label>
+                  <input
+                    type="date"
+                    value={newHolding.acquiredOn}
+                    max={today}
+                    onChange={(e) => setNewHolding({ ...newHolding, acquiredOn: e.target.value })}
+                    className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-gray-500 text-xs mt-1">Corporate actions with a book closure after this date are applied.</p>
+                </div>
               </div>
               
               <div className="flex space-x-4 mt-8">
@@ -314,6 +503,12 @@ const PortfolioAnalyzer: React.FC = () => {
           </div>
         )}
 
+        {analysisError && (
+          <div className="max-w-6xl mx-auto mb-8">
+            <ErrorNotice error={analysisError} onRetry={getAIPortfolioAnalysis} />
+          </div>
+        )}
+
         {/* Analysis & Recommendations */}
         <div className="max-w-6xl mx-auto grid md:grid-cols-2 gap-8">
           {/* AI Portfolio Analysis */}
@@ -333,6 +528,17 @@ const PortfolioAnalyzer: React.FC = () => {
             </div>
           )}
 
+          {aiAnalysis && !loadingAnalysis && (
+            <div className="lg:col-span-2">
+              <FollowUpChat
+                subject="the user's portfolio"
+                context={followUpContext}
+                useCase="portfolio"
+                suggestions={['Which holding adds the most risk?', 'How should I rebalance?', 'What if I hold for 5 years?']}
+              />
+            </div>
+          )}
+
           {/* Risk Analysis */}
           <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8">
             <h3 className="text-xl font-bold text-white mb-6 flex items-center">
@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { LineChart, CandlestickChart } from 'lucide-react';
+import { DailyBar, PriceTick } from '../types/market';
+import { priceHistory, startOfDay, toDateKey } from '../services/priceHistory';
+import { useQuotes } from '../hooks/useQuotes';
+
+type ChartRange = '1D' | '1W' | '1M' | '6M' | '1Y';
+type ChartMode = 'line' | 'candle';
+
+interface PriceChartProps {
+  ticker: string;
+}
+
+interface ChartPoint {
+  label: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS: Record<Exclude<ChartRange, '1D'>, number> = { '1W': 7, '1M': 30, '6M': 182, '1Y': 365 };
+
+const WIDTH = 800;
+const PRICE_HEIGHT = 260;
+const VOLUME_HEIGHT = 70;
+const GAP = 12;
+const HEIGHT = PRICE_HEIGHT + GAP + VOLUME_HEIGHT;
+const AXIS_WIDTH = 56;
+const PLOT_WIDTH = WIDTH - AXIS_WIDTH;
+const GRID_LINES = 4;
+
+const fromBars = (bars: DailyBar[]): ChartPoint[] =>
+  bars.map(bar => ({
+    label: new Date(`${bar.date}T00:00:00Z`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' }),
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume
+  }));
+
+// Ticks carry cumulative session volume, so each point shows what traded since the previous poll
+const fromTicks = (ticks: PriceTick[]): ChartPoint[] =>
+  ticks.map((tick, index) => ({
+    label: new Date(tick.timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' }),
+    open: tick.price,
+    high: tick.price,
+    low: tick.price,
+    close: tick.price,
+    volume: index === 0 ? tick.volume : Math.max(0, tick.volume - ticks[index - 1].volume)
+  }));
+
+const PriceChart: React.FC<PriceChartProps> = ({ ticker }) => {
+  const [range, setRange] = useState<ChartRange>('1M');
+  const [mode, setMode] = useState<ChartMode>('line');
+  const [points, setPoints] = useState<ChartPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  // Reload whenever the shared poller stores a new tick
+  const { lastUpdated } = useQuotes();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const now = Date.now();
+        const next = range === '1D'
+          ? fromTicks(await priceHistory.getTicks(ticker, startOfDay(now), now))
+          : fromBars(await priceHistory.getDailyBars(ticker, toDateKey(now - RANGE_DAYS[range] * DAY_MS)));
+        if (!cancelled) setPoints(next);
+      } catch (error) {
+        console.error('Error loading price history:', error);
+        if (!cancelled) setPoints([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [ticker, range, lastUpdated]);
+
+  const scales = useMemo(() => {
+    if (points.length === 0) return null;
+    const low = Math.min(...points.map(point => point.low));
+    const high = Math.max(...points.map(point => point.high));
+    const padding = (high - low) * 0.05 || high * 0.01 || 1;
+    const min = low - padding;
+    const max = high + padding;
+    const maxVolume = Math.max(...points.map(point => point.volume), 1);
+    const step = PLOT_WIDTH / points.length;
+
+    return {
+      min,
+      max,
+      step,
+      x: (index: number) => index * step + step / 2,
+      y: (price: number) => PRICE_HEIGHT - ((price - min) / (max - min)) * PRICE_HEIGHT,
+      volumeHeight: (volume: number) => (volume / maxVolume) * VOLUME_HEIGHT
+    };
+  }, [points]);
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!svgRef.current || !scales) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const plotX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.floor(plotX / scales.step);
+    setHovered(index >= 0 && index < points.length ? index : null);
+  };
+
+  const showCandles = mode === 'candle' && range !== '1D';
+  const active = hovered !== null ? points[hovered] : points[points.length - 1];
+  const first = points[0];
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex space-x-1 bg-slate-700/50 rounded-lg p-1">
+          {(['1D', '1W', '1M', '6M', '1Y'] as ChartRange[]).map(option => (
+            <button
+              key={option}
+              onClick={() => {
+                setRange(option);
+                setHovered(null);
+              }}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                range === option ? 'bg-green-600 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <div className="flex space-x-1 bg-slate-700/50 rounded-lg p-1">
+          <button
+            onClick={() => setMode('line')}
+            className={`p-1.5 rounded-md ${mode === 'line' ? 'bg-slate-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            title="Line"
+          >
+            <LineChart className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setMode('candle')}
+            disabled={range === '1D'}
+            className={`p-1.5 rounded-md disabled:opacity-40 ${showCandles ? 'bg-slate-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            title={range === '1D' ? 'Candles need daily bars' : 'Candlestick'}
+          >
+            <CandlestickChart className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {active && first && (
+        <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 mb-3 text-sm">
+          <span className="text-gray-400">{active.label}</span>
+          {showCandles ? (
+            <span className="text-gray-300">
+              O {active.open.toFixed(2)} H {active.high.toFixed(2)} L {active.low.toFixed(2)} C {active.close.toFixed(2)}
+            </span>
+          ) : (
+            <span className="text-white font-semibold">KES {active.close.toFixed(2)}</span>
+          )}
+          <span className={active.close >= first.open ? 'text-green-400' : 'text-red-400'}>
+            {active.close >= first.open ? '+' : ''}{(((active.close - first.open) / first.open) * 100).toFixed(2)}% over range
+          </span>
+          <span className="text-gray-400">Vol {active.volume.toLocaleString()}</span>
+        </div>
+      )}
+
+      {scales && points.length > 0 ? (
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto select-none"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHovered(null)}
+        >
+          {/* Grid and price axis */}
+          {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+            const price = scales.min + ((scales.max - scales.min) * i) / GRID_LINES;
+            const y = scales.y(price);
+            return (
+              <g key={i}>
+                <line x1={0} x2={PLOT_WIDTH} y1={y} y2={y} stroke="#334155" strokeWidth={1} />
+                <text x={PLOT_WIDTH + 6} y={y + 4} fill="#94a3b8" fontSize={11}>{price.toFixed(2)}</text>
+              </g>
+            );
+          })}
+
+          {/* Price */}
+          {showCandles ? (
+            points.map((point, index) => {
+              const rising = point.close >= point.open;
+              const color = rising ? '#4ade80' : '#f87171';
+              const bodyTop = scales.y(Math.max(point.open, point.close));
+              const bodyHeight = Math.max(1, Math.abs(scales.y(point.open) - scales.y(point.close)));
+              return (
+                <g key={index}>
+                  <line x1={scales.x(index)} x2={scales.x(index)} y1={scales.y(point.high)} y2={scales.y(point.low)} stroke={color} strokeWidth={1} />
+                  <rect
+                    x={scales.x(index) - scales.step * 0.35}
+                    y={bodyTop}
+                    width={Math.max(1, scales.step * 0.7)}
+                    height={bodyHeight}
+                    fill={color}
+                  />
+                </g>
+              );
+            })
+          ) : (
+            <polyline
+              points={points.map((point, index) => `${scales.x(index)},${scales.y(point.close)}`).join(' ')}
+              fill="none"
+              stroke="#4ade80"
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+          )}
+
+          {/* Volume sub-pane */}
+          {points.map((point, index) => {
+            const height = scales.volumeHeight(point.volume);
+            return (
+              <rect
+                key={`v${index}`}
+                x={scales.x(index) - scales.step * 0.35}
+                y={HEIGHT - height}
+                width={Math.max(1, scales.step * 0.7)}
+                height={height}
+                fill={index > 0 && point.close < points[index - 1].close ? '#f8717166' : '#4ade8066'}
+              />
+            );
+          })}
+          <text x={PLOT_WIDTH + 6} y={PRICE_HEIGHT + GAP + 12} fill="#94a3b8" fontSize={11}>Vol</text>
+
+          {/* Crosshair */}
+          {hovered !== null && points[hovered] && (
+            <g pointerEvents="none">
+              <line x1={scales.x(hovered)} x2={scales.x(hovered)} y1={0} y2={HEIGHT} stroke="#cbd5e1" strokeDasharray="3 3" strokeWidth={1} />
+              <line
+                x1={0}
+                x2={PLOT_WIDTH}
+                y1={scales.y(points[hovered].close)}
+                y2={scales.y(points[hovered].close)}
+                stroke="#cbd5e1"
+                strokeDasharray="3 3"
+                strokeWidth={1}
+              />
+              <rect x={PLOT_WIDTH + 2} y={scales.y(points[hovered].close) - 9} width={AXIS_WIDTH - 4} height={18} rx={3} fill="#16a34a" />
+              <text x={PLOT_WIDTH + 6} y={scales.y(points[hovered].close) + 4} fill="#ffffff" fontSize={11}>
+                {points[hovered].close.toFixed(2)}
+              </text>
+            </g>
+          )}
+        </svg>
+      ) : (
+        <div className="h-64 flex items-center justify-center text-gray-500 text-sm text-center px-6">
+          {loading
+            ? 'Loading price history...'
+            : range === '1D'
+              ? 'No quotes recorded today yet. Prices are stored each time the NSE feed refreshes.'
+              : 'No daily history stored for this range yet. Bars build up as quotes are polled, or can be imported.'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceChart;
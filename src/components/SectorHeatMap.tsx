@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { LayoutGrid, X } from 'lucide-react';
+import { useQuotes } from '../hooks/useQuotes';
+import { useFundamentals } from '../hooks/useFundamentals';
+import { formatMarketCap } from '../services/fundamentals';
+import { SectorWeighting, buildSectorPerformance, weightingLabels } from '../services/sectorPerformance';
+import WatchlistButton from './WatchlistButton';
+
+// Smallest tile, as a share of the row, so thinly weighted sectors stay clickable
+const MIN_TILE_SHARE = 0.08;
+
+const heatColor = (changePercent: number): string => {
+  if (changePercent >= 2) return 'bg-green-600/80 border-green-500';
+  if (changePercent >= 0.5) return 'bg-green-700/60 border-green-600/60';
+  if (changePercent > 0) return 'bg-green-900/50 border-green-800/60';
+  if (changePercent === 0) return 'bg-slate-700/50 border-slate-600';
+  if (changePercent > -0.5) return 'bg-red-900/50 border-red-800/60';
+  if (changePercent > -2) return 'bg-red-700/60 border-red-600/60';
+  return 'bg-red-600/80 border-red-500';
+};
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const SectorHeatMap: React.FC = () => {
+  const { quotes, loading } = useQuotes();
+  const { byTicker } = useFundamentals();
+  const [weighting, setWeighting] = useState<SectorWeighting>('market-cap');
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const sectors = buildSectorPerformance(quotes, byTicker, weighting);
+  const drillDown = sectors.find(sector => sector.sector === selected);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <h2 className="text-2xl font-bold text-white flex items-center">
+          <LayoutGrid className="w-6 h-6 mr-3 text-green-400" />
+          Sector Heat Map
+        </h2>
+        <div className="mt-4 md:mt-0 flex space-x-1 bg-slate-700/50 rounded-lg p-1">
+          {(Object.keys(weightingLabels) as SectorWeighting[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setWeighting(option)}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                weighting === option ? 'bg-green-600 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {weightingLabels[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {sectors.length === 0 ? (
+        <p className="text-gray-400 text-sm">{loading ? 'Loading quotes...' : 'No quotes available.'}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {sectors.map(sector => (
+              <button
+                key={sector.sector}
+                onClick={() => setSelected(sector.sector === selected ? null : sector.sector)}
+                style={{ flexGrow: Math.max(sector.marketShare, MIN_TILE_SHARE) * 100, flexBasis: `${Math.max(sector.marketShare, MIN_TILE_SHARE) * 100}%` }}
+                className={`min-h-24 p-3 rounded-lg border text-left transition-all ${heatColor(sector.changePercent)} ${
+                  sector.sector === selected ? 'ring-2 ring-white' : 'hover:brightness-125'
+                }`}
+                title={`${sector.constituents.length} listings, ${sector.advancers} up, ${sector.decliners} down`}
+              >
+                <div className="text-white font-semibold text-sm leading-tight">{sector.sector}</div>
+                <div className="text-white text-lg font-bold">{signed(sector.changePercent)}</div>
+                <div className="text-gray-200 text-xs">
+                  {(sector.marketShare * 100).toFixed(1)}% of {weighting === 'market-cap' ? 'market cap' : 'turnover'}
+                  {sector.equalWeighted && ' · equal-weighted'}
+                </div>
+              </button>
+            ))}
+          </div>
+          <p className="mt-3 text-xs text-gray-500">
+            Tile size and sector change are weighted by {weighting === 'market-cap' ? 'market cap from company fundamentals' : "today's turnover"}. Click a sector to see its constituents.
+          </p>
+        </>
+      )}
+
+      {drillDown && (
+        <div className="mt-6 border-t border-slate-700 pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-white">
+              {drillDown.sector}
+              <span className="ml-3 text-sm font-normal text-gray-400">
+                {drillDown.advancers} up · {drillDown.decliners} down · {formatMarketCap(drillDown.marketCap || null)} market cap · KES {Math.round(drillDown.turnover).toLocaleString()} traded
+              </span>
+            </h3>
+            <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-white" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-700/50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-gray-300 font-semibold">Ticker</th>
+                  <th className="px-4 py-2 text-right text-gray-300 font-semibold">Price</th>
+                  <th className="px-4 py-2 text-right text-gray-300 font-semibold">Change</th>
+                  <th className="px-4 py-2 text-right text-gray-300 font-semibold">Market Cap</th>
+                  <th className="px-4 py-2 text-right text-gray-300 font-semibold">Turnover</th>
+                  <th className="px-4 py-2 text-right text-gray-300 font-semibold">Weight</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {drillDown.constituents.map(row => (
+                  <tr key={row.ticker} className="border-b border-slate-700">
+                    <td className="px-4 py-2">
+                      <div className="text-white font-semibold">{row.ticker}</div>
+                      <div className="text-gray-400 text-xs">{row.name}</div>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-300">KES {row.price.toFixed(2)}</td>
+                    <td className={`px-4 py-2 text-right ${row.change > 0 ? 'text-green-400' : row.change < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                      {signed(row.changePercent)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-300">{formatMarketCap(row.marketCap)}</td>
+                    <td className="px-4 py-2 text-right text-gray-300">KES {Math.round(row.turnover).toLocaleString()}</td>
+                    <td className="px-4 py-2 text-right text-gray-300">{(row.weight * 100).toFixed(1)}%</td>
+                    <td className="px-4 py-2 text-right">
+                      <WatchlistButton ticker={row.ticker} compact />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SectorHeatMap;
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+// Minimal trend line; colour follows the first-to-last move
+const Sparkline: React.FC<SparklineProps> = ({ values, width = 120, height = 32, className = '' }) => {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const x = (index: number) => (index / (values.length - 1)) * width;
+  const y = (value: number) => (max === min ? height / 2 : height - 2 - ((value - min) / (max - min)) * (height - 4));
+  const points = values.map((value, index) => `${x(index)},${y(value)}`).join(' ');
+  const rising = values[values.length - 1] >= values[0];
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height} className={className} aria-hidden="true">
+      <polyline
+        points={points}
+        fill="none"
+        stroke={rising ? '#4ade80' : '#f87171'}
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+};
+
+export default Sparkline;
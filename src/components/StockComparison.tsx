@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Activity, RefreshCw, Sparkles, BarChart3 } from 'lucide-react';
+import { NSEStock } from '../types/market';
+import { useQuotes } from '../hooks/useQuotes';
+import { useFundamentals } from '../hooks/useFundamentals';
+import { apiService, isAbortError } from '../services/api';
+import { APIError } from '../services/errors';
+import { ComparisonPeriod, ComparisonRow, MAX_COMPARE, MIN_COMPARE, loadComparison } from '../services/comparison';
+import { formatMarketCap } from '../services/fundamentals';
+import ErrorNotice from './ErrorNotice';
+import StockSearchBox from './StockSearchBox';
+
+const COLORS = ['#4ade80', '#60a5fa', '#facc15', '#f472b6'];
+
+const WIDTH = 800;
+const HEIGHT = 260;
+const AXIS_WIDTH = 56;
+const PLOT_WIDTH = WIDTH - AXIS_WIDTH;
+const GRID_LINES = 4;
+
+const formatNumber = (value: number, digits = 2) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+const signed = (value: number, digits = 2) => `${value > 0 ? '+' : ''}${formatNumber(value, digits)}`;
+
+const toneOf = (value: number | null) =>
+  value === null || value === 0 ? 'text-gray-300' : value > 0 ? 'text-green-400' : 'text-red-400';
+
+const metrics: Array<{ label: string; render: (row: ComparisonRow) => React.ReactNode }> = [
+  { label: 'Sector', render: row => row.sector },
+  { label: 'Price (KES)', render: row => formatNumber(row.stock.Price) },
+  { label: 'Change', render: row => <span className={toneOf(row.changePercent)}>{signed(row.stock.Change)} ({signed(row.changePercent)}%)</span> },
+  { label: 'Volume', render: row => row.stock.Volume.toLocaleString() },
+  { label: 'Turnover (KES)', render: row => formatNumber(row.turnover, 0) },
+  { label: 'Avg volume (20d)', render: row => (row.indicators?.averageVolume20 ? Math.round(row.indicators.averageVolume20).toLocaleString() : '—') },
+  { label: 'Period return', render: row => (row.periodReturn === null ? '—' : <span className={toneOf(row.periodReturn)}>{signed(row.periodReturn)}%</span>) },
+  { label: 'Market cap', render: row => formatMarketCap(row.valuation.marketCap) },
+  { label: 'P/E', render: row => row.valuation.pe?.toFixed(1) ?? '—' },
+  { label: 'P/B', render: row => row.valuation.pb?.toFixed(2) ?? '—' },
+  { label: 'Dividend yield', render: row => (row.valuation.dividendYield === null ? '—' : `${row.valuation.dividendYield.toFixed(2)}%`) },
+  { label: 'SMA 20 / 50', render: row => `${row.indicators?.sma20?.toFixed(2) ?? '—'} / ${row.indicators?.sma50?.toFixed(2) ?? '—'}` },
+  { label: 'RSI 14', render: row => row.indicators?.rsi14?.toFixed(1) ?? '—' },
+  { label: '52-week range', render: row => (row.indicators ? `${row.indicators.low52w.toFixed(2)} – ${row.indicators.high52w.toFixed(2)}` : '—') }
+];
+
+// Rebased lines share one y axis so relative performance reads directly
+const PerformanceChart: React.FC<{ rows: ComparisonRow[] }> = ({ rows }) => {
+  const dates = [...new Set(rows.flatMap(row => row.performance.map(point => point.date)))].sort();
+  const values = rows.flatMap(row => row.performance.map(point => point.value));
+  if (dates.length < 2 || values.length === 0) {
+    return (
+      <div className="h-48 flex items-center justify-center text-gray-500 text-sm text-center px-6">
+        Not enough stored daily history for this period yet. Bars build up as quotes are polled, or can be imported.
+      </div>
+    );
+  }
+
+  const low = Math.min(...values, 100);
+  const high = Math.max(...values, 100);
+  const padding = (high - low) * 0.05 || 1;
+  const min = low - padding;
+  const max = high + padding;
+  const x = (date: string) => (dates.indexOf(date) / (dates.length - 1)) * PLOT_WIDTH;
+  const y = (value: number) => HEIGHT - ((value - min) / (max - min)) * HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+        const value = min + ((max - min) * i) / GRID_LINES;
+        return (
+          <g key={i}>
+            <line x1={0} x2={PLOT_WIDTH} y1={y(value)} y2={y(value)} stroke="#334155" strokeWidth={1} />
+            <text x={PLOT_WIDTH + 6} y={y(value) + 4} fill="#94a3b8" fontSize={11}>{value.toFixed(0)}</text>
+          </g>
+        );
+      })}
+      <line x1={0} x2={PLOT_WIDTH} y1={y(100)} y2={y(100)} stroke="#64748b" strokeDasharray="4 4" strokeWidth={1} />
+      {rows.map((row, index) => (
+        <polyline
+          key={row.stock.Ticker}
+          points={row.performance.map(point => `${x(point.date)},${y(point.value)}`).join(' ')}
+          fill="none"
+          stroke={COLORS[index % COLORS.length]}
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+};
+
+const StockComparison: React.FC = () => {
+  const { quotes, lastUpdated, loading, error, getQuote, refresh } = useQuotes();
+  const { byTicker: fundamentals } = useFundamentals();
+  const [tickers, setTickers] = useState<string[]>([]);
+  const [period, setPeriod] = useState<ComparisonPeriod>('1M');
+  const [rows, setRows] = useState<ComparisonRow[]>([]);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [summaryError, setSummaryError] = useState<APIError | null>(null);
+  const [loadingSummary, setLoadingSummary] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // getQuote changes with every poll, which is when the comparison should refresh; imported fundamentals also reload it
+  useEffect(() => {
+    let cancelled = false;
+    const stocks = tickers.map(ticker => getQuote(ticker)).filter((stock): stock is NSEStock => !!stock);
+
+    loadComparison(stocks, period).then(next => {
+      if (!cancelled) setRows(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [tickers, period, getQuote, fundamentals]);
+
+  // A summary describes one exact selection, so drop it when the selection changes
+  useEffect(() => {
+    abortRef.current?.abort();
+    setSummary(null);
+    setSummaryError(null);
+  }, [tickers, period]);
+
+  const addTicker = (stock: NSEStock) => {
+    if (tickers.length >= MAX_COMPARE || tickers.includes(stock.Ticker)) return;
+    setTickers([...tickers, stock.Ticker]);
+  };
+
+  const generateSummary = async () => {
+    if (rows.length < MIN_COMPARE) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoadingSummary(true);
+    setSummary('');
+    setSummaryError(null);
+    try {
+      const result = await apiService.getStockComparison(rows, period, {
+        signal: controller.signal,
+        onToken: (token) => setSummary(prev => (prev ?? '') + token)
+      });
+      if (result.ok) {
+        setSummary(result.value);
+      } else {
+        setSummary(null);
+        setSummaryError(result.error);
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error getting comparison summary:', error);
+    } finally {
+      if (abortRef.current === controller) {
+        setLoadingSummary(false);
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 pt-8 pb-16">
+      <div className="container mx-auto px-6">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-white mb-4">Compare NSE Stocks</h1>
+          <p className="text-gray-300 text-lg max-w-2xl mx-auto">
+            Put two to four listings side by side: live trading figures, relative performance and technical indicators.
+          </p>
+          {lastUpdated && (
+            <div className="mt-4 flex items-center justify-center text-sm text-gray-400">
+              <Activity className="w-4 h-4 mr-2" />
+              Data last updated: {lastUpdated.toLocaleTimeString()}
+              <button onClick={refresh} className="ml-4 text-green-400 hover:text-green-300 flex items-center">
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Refresh
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="max-w-2xl mx-auto mb-8">
+            <ErrorNotice error={error} onRetry={refresh} />
+          </div>
+        )}
+
+        {/* Selection */}
+        <div className="max-w-4xl mx-auto mb-8">
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {tickers.map((ticker, index) => (
+              <span key={ticker} className="inline-flex items-center px-3 py-1 rounded-full bg-slate-700/50 border border-slate-600 text-white text-sm">
+                <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+                {ticker}
+                <button
+                  onClick={() => setTickers(tickers.filter(existing => existing !== ticker))}
+                  className="ml-2 text-gray-400 hover:text-red-400"
+                  title={`Remove ${ticker}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            {tickers.length < MIN_COMPARE && (
+              <span className="text-gray-400 text-sm">Add at least {MIN_COMPARE - tickers.length} more stock{MIN_COMPARE - tickers.length === 1 ? '' : 's'} to compare</span>
+            )}
+          </div>
+          {tickers.length < MAX_COMPARE ? (
+            <StockSearchBox stocks={quotes.filter(stock => !tickers.includes(stock.Ticker))} loading={loading} onSelect={addTicker} />
+          ) : (
+            <p className="text-gray-500 text-sm">Up to {MAX_COMPARE} stocks can be compared at once.</p>
+          )}
+        </div>
+
+        {rows.length >= MIN_COMPARE && (
+          <>
+            {/* Performance */}
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8 mb-8">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <h2 className="text-xl font-bold text-white">Performance (rebased to 100)</h2>
+                <div className="flex space-x-1 bg-slate-700/50 rounded-lg p-1">
+                  {(['1W', '1M', '6M', '1Y'] as ComparisonPeriod[]).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setPeriod(option)}
+                      className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                        period === option ? 'bg-green-600 text-white' : 'text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <PerformanceChart rows={rows} />
+            </div>
+
+            {/* Side-by-side figures */}
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl overflow-hidden mb-8">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-700/50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-gray-300 font-semibold"></th>
+                      {rows.map((row, index) => (
+                        <th key={row.stock.Ticker} className="px-4 py-3 text-right font-semibold">
+                          <div className="inline-flex items-center text-white">
+                            <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+                            {row.stock.Ticker}
+                          </div>
+                          <div className="text-gray-400 text-xs font-normal">{row.stock.Name}</div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {metrics.map(metric => (
+                      <tr key={metric.label} className="border-t border-slate-700">
+                        <td className="px-4 py-3 text-gray-400">{metric.label}</td>
+                        {rows.map(row => (
+                          <td key={row.stock.Ticker} className="px-4 py-3 text-right text-white">{metric.render(row)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* AI comparison */}
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <h2 className="text-xl font-bold text-white flex items-center">
+                  <BarChart3 className="w-6 h-6 mr-3 text-blue-400" />
+                  AI Comparison
+                </h2>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={generateSummary}
+                    disabled={loadingSummary}
+                    className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-all duration-300"
+                  >
+                    <Sparkles className="w-4 h-4 mr-2" />
+                    {loadingSummary ? 'Comparing...' : summary ? 'Regenerate' : 'Generate summary'}
+                  </button>
+                  {loadingSummary && (
+                    <button
+                      onClick={() => abortRef.current?.abort()}
+                      className="flex items-center px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-all duration-300"
+                    >
+                      Stop
+                    </button>
+                  )}
+                </div>
+              </div>
+              {summaryError && <ErrorNotice error={summaryError} onRetry={generateSummary} />}
+              {summary ? (
+                <div className="space-y-4">
+                  {summary.split('\n\n').map((section, index) => (
+                    <div key={index} className="p-4 bg-slate-700/30 rounded-lg">
+                      <p className="text-gray-300 leading-relaxed whitespace-pre-line">{section}</p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                !summaryError && (
+                  <p className="text-gray-500 text-sm">
+                    Optional: ask the AI to compare these stocks using exactly the figures shown above.
+                  </p>
+                )
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockComparison;
@@ -1,13 +1,19 @@
-import React, { useState, useEffect } from 'react';
-import { Search, TrendingUp, TrendingDown, DollarSign, BarChart3, AlertCircle, Star, Calendar, Target, ExternalLink, Loader, RefreshCw, Activity } from 'lucide-react';
-
-interface NSEStock {
-  Ticker: string;
-  Name: string;
-  Volume: number;
-  Price: number;
-  Change: number;
-}
+import React, { useState } from 'react';
+import { TrendingUp, TrendingDown, BarChart3, AlertCircle, RefreshCw, Activity } from 'lucide-react';
+import { NSEStock } from '../types/market';
+import { IndicatorSnapshot, loadIndicators } from '../services/indicators';
+import { useQuotes } from '../hooks/useQuotes';
+import { useIntradayPrices } from '../hooks/useIntradayPrices';
+import { useFundamentals } from '../hooks/useFundamentals';
+import { formatFundamentalsForPrompt, formatMarketCap, valuationOf } from '../services/fundamentals';
+import ErrorNotice from './ErrorNotice';
+import AIStockInsight from './AIStockInsight';
+import FollowUpChat from './FollowUpChat';
+import NewsSentiment from './NewsSentiment';
+import StockSearchBox from './StockSearchBox';
+import PriceChart from './PriceChart';
+import Sparkline from './Sparkline';
+import WatchlistButton from './WatchlistButton';
 
 interface StockData {
   stock: NSEStock;
@@ -16,72 +22,84 @@ interface StockData {
 }
 
 const StockResearch: React.FC = () => {
-  const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(false);
   const [stockData, setStockData] = useState<StockData | null>(null);
-  const [allStocks, setAllStocks] = useState<NSEStock[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const { quotes: allStocks, lastUpdated, error: feedError, getQuote, refresh } = useQuotes();
+  const intradayPrices = useIntradayPrices(stockData?.stock.Ticker ?? null);
+  const { getFundamentals } = useFundamentals();
 
-  // Fetch all NSE stocks on component mount
-  useEffect(() => {
-    fetchAllStocks();
-  }, []);
+  const describeTrend = (stock: NSEStock, ind: IndicatorSnapshot): string => {
+    if (ind.sma20 === null) {
+      return `Only ${ind.barCount} day${ind.barCount === 1 ? '' : 's'} of price history have been recorded, not enough for moving averages yet. Today's ${stock.Change > 0 ? 'gain' : stock.Change < 0 ? 'decline' : 'flat session'} alone is not a reliable trend signal.`;
+    }
+    const vs20 = stock.Price >= ind.sma20 ? 'above' : 'below';
+    const longer = ind.sma50 === null
+      ? 'There is not yet enough history for the 50-day average.'
+      : ind.sma20 >= ind.sma50
+        ? `The 20-day average (${ind.sma20.toFixed(2)}) is above the 50-day (${ind.sma50.toFixed(2)}), an uptrend structure.`
+        : `The 20-day average (${ind.sma20.toFixed(2)}) is below the 50-day (${ind.sma50.toFixed(2)}), a downtrend structure.`;
+    return `The price is ${vs20} its 20-day moving average of KES ${ind.sma20.toFixed(2)}. ${longer}`;
+  };
 
-  const fetchAllStocks = async () => {
-    try {
-      const response = await fetch('http://4.222.216.225:8002/nse');
-      if (!response.ok) {
-        throw new Error('Failed to fetch NSE data');
-      }
-      const stocks = await response.json();
-      setAllStocks(stocks);
-      setLastUpdated(new Date());
-    } catch (err) {
-      console.error('Error fetching NSE data:', err);
-      setError('Failed to load NSE data. Please check your connection.');
+  const describeMomentum = (ind: IndicatorSnapshot): string => {
+    const parts: string[] = [];
+    if (ind.rsi14 !== null) {
+      const zone = ind.rsi14 >= 70 ? 'overbought territory, where pullbacks are common'
+        : ind.rsi14 <= 30 ? 'oversold territory, where rebounds are common'
+        : 'a neutral range';
+      parts.push(`RSI(14) is ${ind.rsi14.toFixed(1)}, in ${zone}.`);
+    }
+    if (ind.macd) {
+      parts.push(`MACD is ${ind.macd.histogram >= 0 ? 'above' : 'below'} its signal line (histogram ${ind.macd.histogram.toFixed(3)}), indicating ${ind.macd.histogram >= 0 ? 'strengthening' : 'weakening'} momentum.`);
+    }
+    if (ind.bollinger) {
+      const position = ind.close > ind.bollinger.upper ? 'above the upper Bollinger Band, an unusually strong move'
+        : ind.close < ind.bollinger.lower ? 'below the lower Bollinger Band, an unusually weak move'
+        : `inside the Bollinger Bands (${ind.bollinger.lower.toFixed(2)} to ${ind.bollinger.upper.toFixed(2)})`;
+      parts.push(`The close is ${position}.`);
     }
+    return parts.length > 0 ? parts.join(' ') : 'Momentum indicators need at least 15 days of history and are not available yet.';
   };
 
-  const generateAIAnalysis = (stock: NSEStock): string => {
+  const generateAIAnalysis = (stock: NSEStock, ind: IndicatorSnapshot | null): string => {
     const changePercent = ((stock.Change / (stock.Price - stock.Change)) * 100).toFixed(2);
-    const isPositive = stock.Change > 0;
-    const volumeStatus = stock.Volume > 100000 ? 'High' : stock.Volume > 10000 ? 'Moderate' : 'Low';
-    
+    const relativeVolume = ind?.averageVolume20 ? stock.Volume / ind.averageVolume20 : null;
+    const rangePosition = ind && ind.high52w > ind.low52w ? ((stock.Price - ind.low52w) / (ind.high52w - ind.low52w)) * 100 : null;
+
+    const volumeText = stock.Volume === 0
+      ? 'No trading activity recorded, which may indicate low liquidity or market closure.'
+      : relativeVolume === null
+        ? 'There is not yet enough history for a 20-day volume average.'
+        : `That is ${relativeVolume.toFixed(1)}x the 20-day average of ${Math.round(ind?.averageVolume20 ?? 0).toLocaleString()}, ${relativeVolume >= 1.5 ? 'unusually heavy participation that lends weight to the move' : relativeVolume <= 0.5 ? 'light participation, so the move carries less conviction' : 'in line with normal activity'}.`;
+
     return `Current Trading Analysis for ${stock.Name} (${stock.Ticker}):
 
-The stock is currently trading at KES ${stock.Price.toFixed(2)}, showing a ${isPositive ? 'positive' : stock.Change < 0 ? 'negative' : 'neutral'} movement of ${changePercent}% (KES ${stock.Change.toFixed(2)}) from the previous session.
+The stock is currently trading at KES ${stock.Price.toFixed(2)}, ${stock.Change > 0 ? 'up' : stock.Change < 0 ? 'down' : 'unchanged'} ${changePercent}% (KES ${stock.Change.toFixed(2)}) on the session.
+
+Trend: ${ind ? describeTrend(stock, ind) : 'No price history has been recorded for this stock yet, so trend indicators are unavailable.'}
+
+Momentum: ${ind ? describeMomentum(ind) : 'Momentum indicators will appear once daily prices have been recorded.'}
 
-Volume Analysis: Today's trading volume stands at ${stock.Volume.toLocaleString()} shares, indicating ${volumeStatus.toLowerCase()} investor interest. ${stock.Volume > 100000 ? 'High volume suggests strong market participation and liquidity.' : stock.Volume === 0 ? 'No trading activity recorded, which may indicate low liquidity or market closure.' : 'Moderate volume suggests steady but not exceptional trading activity.'}
+Volume Analysis: Today's trading volume stands at ${stock.Volume.toLocaleString()} shares. ${volumeText}
 
-Technical Overview: ${isPositive ? 'The positive price movement suggests bullish sentiment in the short term. Investors may be responding to favorable market conditions or company-specific news.' : stock.Change < 0 ? 'The price decline indicates bearish pressure. This could be due to profit-taking, market-wide corrections, or company-specific concerns.' : 'The stock shows price stability with no significant movement, suggesting equilibrium between buyers and sellers.'}
+52-Week Range: ${ind && rangePosition !== null ? `KES ${ind.low52w.toFixed(2)} to ${ind.high52w.toFixed(2)}${ind.barCount < 250 ? ` (from ${ind.barCount} days of recorded history)` : ''}. The price sits ${rangePosition.toFixed(0)}% of the way up this range.` : 'Not enough recorded history to establish a range.'}
 
 Market Context: As part of the Nairobi Securities Exchange, this stock operates within Kenya's evolving financial landscape. Consider broader economic factors including interest rates, inflation, and sector-specific developments when making investment decisions.
 
-Risk Considerations: ${stock.Volume === 0 ? 'Zero volume indicates potential liquidity risks.' : stock.Volume < 10000 ? 'Lower trading volume may present liquidity challenges for large positions.' : 'Adequate liquidity supports easier position entry and exit.'}`;
+Risk Considerations: ${stock.Volume === 0 ? 'Zero volume indicates potential liquidity risks.' : stock.Volume < 10000 ? 'Lower trading volume may present liquidity challenges for large positions.' : 'Adequate liquidity supports easier position entry and exit.'}${ind?.bollinger ? ` The Bollinger Band width of ${(((ind.bollinger.upper - ind.bollinger.lower) / ind.bollinger.middle) * 100).toFixed(1)}% of price reflects recent volatility.` : ''}`;
   };
 
-  const handleSearch = async () => {
-    if (!searchTerm.trim()) return;
-    
+  const handleSearch = async (selected: NSEStock) => {
     setLoading(true);
     setError(null);
     
     try {
       // Refresh data to ensure we have latest prices
-      await fetchAllStocks();
-      
-      const foundStock = allStocks.find(stock => 
-        stock.Ticker.toUpperCase() === searchTerm.toUpperCase()
-      );
+      const stocks = await refresh();
+      const foundStock = stocks?.find(stock => stock.Ticker === selected.Ticker) ?? selected;
       
-      if (!foundStock) {
-        setError(`Stock symbol "${searchTerm.toUpperCase()}" not found in NSE listings.`);
-        setLoading(false);
-        return;
-      }
-      
-      const analysis = generateAIAnalysis(foundStock);
+      const analysis = generateAIAnalysis(foundStock, await loadIndicators(foundStock.Ticker));
       
       setStockData({
         stock: foundStock,
@@ -96,6 +114,11 @@ Risk Considerations: ${stock.Volume === 0 ? 'Zero volume indicates potential liq
     }
   };
 
+  // The header follows the polled quote; the analysis below keeps the quote it was written from
+  const liveStock = stockData ? getQuote(stockData.stock.Ticker) ?? stockData.stock : null;
+  const fundamentals = liveStock ? getFundamentals(liveStock.Ticker) : undefined;
+  const valuation = valuationOf(liveStock?.Price ?? 0, fundamentals);
+
   const formatAnalysis = (analysis: string) => {
     const sections = analysis.split('\n\n');
     return sections.map((section, index) => (
@@ -126,7 +149,7 @@ Risk Considerations: ${stock.Volume === 0 ? 'Zero volume indicates potential liq
               <Activity className="w-4 h-4 mr-2" />
               Data last updated: {lastUpdated.toLocaleTimeString()}
               <button 
-                onClick={fetchAllStocks}
+                onClick={refresh}
                 className="ml-4 text-green-400 hover:text-green-300 flex items-center"
               >
                 <RefreshCw className="w-4 h-4 mr-1" />
@@ -138,33 +161,15 @@ Risk Considerations: ${stock.Volume === 0 ? 'Zero volume indicates potential liq
 
         {/* Search Section */}
         <div className="max-w-2xl mx-auto mb-12">
-          <div className="relative">
-            <input
-              type="text"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value.toUpperCase())}
-              onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
-              placeholder="Enter NSE stock symbol (e.g., SCOM, EQTY, KCB, EABL)"
-              className="w-full px-6 py-4 bg-slate-800/50 backdrop-blur-sm border border-slate-600 rounded-2xl text-white text-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent pl-14"
-            />
-            <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400 w-6 h-6" />
-            <button
-              onClick={handleSearch}
-              disabled={loading}
-              className="absolute right-2 top-1/2 transform -translate-y-1/2 px-6 py-2 bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 disabled:opacity-50 text-white font-semibold rounded-xl transition-all duration-300 flex items-center"
-            >
-              {loading ? (
-                <>
-                  <Loader className="w-4 h-4 mr-2 animate-spin" />
-                  Analyzing...
-                </>
-              ) : (
-                'Analyze'
-              )}
-            </button>
-          </div>
+          <StockSearchBox stocks={allStocks} loading={loading} onSelect={handleSearch} />
         </div>
 
+        {feedError && (
+          <div className="max-w-2xl mx-auto mb-8">
+            <ErrorNotice error={feedError} onRetry={refresh} />
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="max-w-2xl mx-auto mb-8">
@@ -178,36 +183,40 @@ Risk Considerations: ${stock.Volume === 0 ? 'Zero volume indicates potential liq
         )}
 
         {/* Results */}
-        {stockData && (
+        {stockData && liveStock && (
           <div className="max-w-6xl mx-auto">
             {/* Stock Header */}
             <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8 mb-8">
               <div className="flex items-center justify-between mb-6">
                 <div className="flex items-center space-x-4">
                   <div className="w-16 h-16 bg-gradient-to-r from-green-600 to-blue-600 rounded-xl flex items-center justify-center text-white font-bold text-lg">
-                    {stockData.stock.Ticker}
+                    {liveStock.Ticker}
                   </div>
                   <div>
-                    <h2 className="text-3xl font-bold text-white">{stockData.stock.Name}</h2>
+                    <h2 className="text-3xl font-bold text-white">{liveStock.Name}</h2>
                     <div className="text-gray-400 text-sm">
-                      NSE: {stockData.stock.Ticker}
+                      NSE: {liveStock.Ticker}
                     </div>
                   </div>
+                  <WatchlistButton ticker={liveStock.Ticker} />
                 </div>
-                <div className="text-right">
-                  <div className="text-3xl font-bold text-white mb-2">
-                    KES {stockData.stock.Price.toFixed(2)}
-                  </div>
-                  <div className={`flex items-center justify-end ${
-                    stockData.stock.Change > 0 ? 'text-green-400' : 
-                    stockData.stock.Change < 0 ? 'text-red-400' : 'text-gray-400'
-                  }`}>
-                    {stockData.stock.Change > 0 ? <TrendingUp className="w-5 h-5 mr-1" /> : 
-                     stockData.stock.Change < 0 ? <TrendingDown className="w-5 h-5 mr-1" /> : null}
-                    {stockData.stock.Change > 0 ? '+' : ''}{stockData.stock.Change.toFixed(2)}
-                    <span className="ml-2 text-sm">
-                      ({((stockData.stock.Change / (stockData.stock.Price - stockData.stock.Change)) * 100).toFixed(2)}%)
-                    </span>
+                <div className="flex items-center space-x-6">
+                  <Sparkline values={intradayPrices} className="hidden md:block" />
+                  <div className="text-right">
+                    <div className="text-3xl font-bold text-white mb-2">
+                      KES {liveStock.Price.toFixed(2)}
+                    </div>
+                    <div className={`flex items-center justify-end ${
+                      liveStock.Change > 0 ? 'text-green-400' : 
+                      liveStock.Change < 0 ? 'text-red-400' : 'text-gray-400'
+                    }`}>
+                      {liveStock.Change > 0 ? <TrendingUp className="w-5 h-5 mr-1" /> : 
+                       liveStock.Change < 0 ? <TrendingDown className="w-5 h-5 mr-1" /> : null}
+                      {liveStock.Change > 0 ? '+' : ''}{liveStock.Change.toFixed(2)}
+                      <span className="ml-2 text-sm">
+                        ({((liveStock.Change / (liveStock.Price - liveStock.Change)) * 100).toFixed(2)}%)
+                      </span>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -216,30 +225,51 @@ Risk Considerations: ${stock.Volume === 0 ? 'Zero volume indicates potential liq
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div className="bg-slate-700/30 rounded-lg p-4">
                   <div className="text-gray-400 text-sm mb-1">Volume</div>
-                  <div className="text-white font-semibold">{stockData.stock.Volume.toLocaleString()}</div>
+                  <div className="text-white font-semibold">{liveStock.Volume.toLocaleString()}</div>
                 </div>
                 <div className="bg-slate-700/30 rounded-lg p-4">
                   <div className="text-gray-400 text-sm mb-1">Change</div>
                   <div className={`font-semibold ${
-                    stockData.stock.Change > 0 ? 'text-green-400' : 
-                    stockData.stock.Change < 0 ? 'text-red-400' : 'text-gray-400'
+                    liveStock.Change > 0 ? 'text-green-400' : 
+                    liveStock.Change < 0 ? 'text-red-400' : 'text-gray-400'
                   }`}>
-                    KES {stockData.stock.Change.toFixed(2)}
+                    KES {liveStock.Change.toFixed(2)}
                   </div>
                 </div>
                 <div className="bg-slate-700/30 rounded-lg p-4">
                   <div className="text-gray-400 text-sm mb-1">Previous Close</div>
                   <div className="text-white font-semibold">
-                    KES {(stockData.stock.Price - stockData.stock.Change).toFixed(2)}
+                    KES {(liveStock.Price - liveStock.Change).toFixed(2)}
                   </div>
                 </div>
                 <div className="bg-slate-700/30 rounded-lg p-4">
                   <div className="text-gray-400 text-sm mb-1">Market Cap</div>
-                  <div className="text-white font-semibold">N/A</div>
+                  <div className="text-white font-semibold">{formatMarketCap(valuation.marketCap)}</div>
+                </div>
+                <div className="bg-slate-700/30 rounded-lg p-4">
+                  <div className="text-gray-400 text-sm mb-1">P/E</div>
+                  <div className="text-white font-semibold">{valuation.pe === null ? 'N/A' : valuation.pe.toFixed(1)}</div>
+                </div>
+                <div className="bg-slate-700/30 rounded-lg p-4">
+                  <div className="text-gray-400 text-sm mb-1">P/B</div>
+                  <div className="text-white font-semibold">{valuation.pb === null ? 'N/A' : valuation.pb.toFixed(2)}</div>
+                </div>
+                <div className="bg-slate-700/30 rounded-lg p-4">
+                  <div className="text-gray-400 text-sm mb-1">Dividend Yield</div>
+                  <div className="text-white font-semibold">{valuation.dividendYield === null ? 'N/A' : `${valuation.dividendYield.toFixed(2)}%`}</div>
+                </div>
+                <div className="col-span-2 md:col-span-4 text-gray-500 text-xs">
+                  {fundamentals
+                    ? `Valuation from ${valuation.earningsBasis ?? `${fundamentals.period} (P/E and yield need a recognised period)`} results (EPS KES ${fundamentals.eps?.toFixed(2) ?? 'n/a'}, DPS KES ${fundamentals.dps?.toFixed(2) ?? 'n/a'}) at the live price.`
+                    : 'No fundamentals on file for this company. Import them from the Screener.'}
                 </div>
               </div>
             </div>
 
+            <PriceChart ticker={stockData.stock.Ticker} />
+
+            <NewsSentiment stock={stockData.stock} />
+
             {/* AI Analysis */}
             <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8 mb-8">
               <h3 className="text-xl font-bold text-white mb-6 flex items-center">
@@ -251,6 +281,23 @@ Risk Considerations: ${stock.Volume === 0 ? 'Zero volume indicates potential liq
               </div>
             </div>
 
+            <AIStockInsight ticker={stockData.stock.Ticker} />
+
+            <FollowUpChat
+              subject={`${stockData.stock.Name} (${stockData.stock.Ticker})`}
+              context={[
+                `Quote as of ${stockData.timestamp}: price KES ${stockData.stock.Price.toFixed(2)}, change ${stockData.stock.Change.toFixed(2)}, volume ${stockData.stock.Volume.toLocaleString()}`,
+                '',
+                'Fundamentals:',
+                formatFundamentalsForPrompt(getFundamentals(stockData.stock.Ticker), stockData.stock.Price),
+                '',
+                'Previous analysis:',
+                stockData.analysis
+              ].join('\n')}
+              useCase="stock"
+              suggestions={['Why?', 'What if I hold for 5 years?', 'What are the main risks?']}
+            />
+
             {/* Disclaimer */}
             <div className="p-6 bg-slate-800/30 backdrop-blur-sm border border-slate-700 rounded-xl">
               <div className="flex items-start space-x-3">
@@ -273,10 +320,7 @@ Risk Considerations: ${stock.Volume === 0 ? 'Zero volume indicates potential liq
               {getTopMovers().map((stock) => (
                 <div
                   key={stock.Ticker}
-                  onClick={() => { 
-                    setSearchTerm(stock.Ticker); 
-                    setTimeout(() => handleSearch(), 100);
-                  }}
+                  onClick={() => handleSearch(stock)}
                   className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-6 cursor-pointer hover:border-green-500/50 transition-all duration-300 transform hover:scale-105"
                 >
                   <div className="flex items-center justify-between mb-4">
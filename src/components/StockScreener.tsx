@@ -0,0 +1,405 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Filter, Save, Trash2, ArrowUp, ArrowDown, Activity, RefreshCw, Upload } from 'lucide-react';
+import { NSE_SECTORS } from '../data/nseSectors';
+import { useQuotes } from '../hooks/useQuotes';
+import { useFundamentals } from '../hooks/useFundamentals';
+import { FundamentalsImportResult, formatMarketCap, fundamentalsStore } from '../services/fundamentals';
+import {
+  NumericRange,
+  SavedScreen,
+  ScreenCriteria,
+  ScreenerColumn,
+  SortKey,
+  applyScreen,
+  builtInScreens,
+  deleteScreen,
+  emptyCriteria,
+  getSavedScreens,
+  saveScreen
+} from '../services/screener';
+import ErrorNotice from './ErrorNotice';
+
+const columns: Array<{ key: ScreenerColumn; label: string; unit?: string }> = [
+  { key: 'price', label: 'Price', unit: 'KES' },
+  { key: 'change', label: 'Change', unit: 'KES' },
+  { key: 'changePercent', label: 'Change %', unit: '%' },
+  { key: 'volume', label: 'Volume' },
+  { key: 'turnover', label: 'Turnover', unit: 'KES' },
+  { key: 'marketCap', label: 'Market Cap', unit: 'KES' },
+  { key: 'pe', label: 'P/E' },
+  { key: 'pb', label: 'P/B' },
+  { key: 'dividendYield', label: 'Yield', unit: '%' }
+];
+
+const parseBound = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Keeps the typed text locally so partial input such as "-" or "1." is not lost
+const BoundInput: React.FC<{ value: number | undefined; placeholder: string; onChange: (value: number | undefined) => void }> = ({
+  value,
+  placeholder,
+  onChange
+}) => {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    if (parseBound(text) !== value) {
+      setText(value === undefined ? '' : String(value));
+    }
+    // Only resync when the criteria change from outside, e.g. loading a saved screen
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value]);
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseBound(e.target.value));
+      }}
+      className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+    />
+  );
+};
+
+const formatNumber = (value: number, digits = 2) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+const formatOptional = (value: number | null, format: (value: number) => string) => (value === null ? '—' : format(value));
+
+const StockScreener: React.FC = () => {
+  const { quotes, lastUpdated, error, refresh } = useQuotes();
+  const { byTicker: fundamentals } = useFundamentals();
+  const [importResult, setImportResult] = useState<FundamentalsImportResult | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [criteria, setCriteria] = useState<ScreenCriteria>(emptyCriteria);
+  const [savedScreens, setSavedScreens] = useState<SavedScreen[]>(getSavedScreens);
+  const [screenName, setScreenName] = useState('');
+  const [activeScreen, setActiveScreen] = useState<string | null>(null);
+
+  const rows = useMemo(() => applyScreen(quotes, criteria, fundamentals), [quotes, criteria, fundamentals]);
+
+  const updateCriteria = (changes: Partial<ScreenCriteria>) => {
+    setCriteria(prev => ({ ...prev, ...changes }));
+    setActiveScreen(null);
+  };
+
+  const updateRange = (column: ScreenerColumn, bound: keyof NumericRange, value: number | undefined) => {
+    const range = { ...criteria.ranges[column], [bound]: value };
+    const ranges = { ...criteria.ranges, [column]: range };
+    if (range.min === undefined && range.max === undefined) delete ranges[column];
+    updateCriteria({ ranges });
+  };
+
+  const toggleSector = (sector: string) => {
+    updateCriteria({
+      sectors: criteria.sectors.includes(sector)
+        ? criteria.sectors.filter(existing => existing !== sector)
+        : [...criteria.sectors, sector]
+    });
+  };
+
+  const sortBy = (key: SortKey) => {
+    updateCriteria({
+      sortBy: key,
+      sortDirection: criteria.sortBy === key && criteria.sortDirection === 'desc' ? 'asc' : 'desc'
+    });
+  };
+
+  const loadScreen = (screen: SavedScreen) => {
+    setCriteria(screen.criteria);
+    setActiveScreen(screen.name);
+    setScreenName(screen.savedAt ? screen.name : '');
+  };
+
+  const handleSave = () => {
+    if (!screenName.trim()) return;
+    setSavedScreens(saveScreen(screenName, criteria));
+    setActiveScreen(screenName.trim());
+  };
+
+  const handleDelete = (name: string) => {
+    setSavedScreens(deleteScreen(name));
+    if (activeScreen === name) setActiveScreen(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImportResult(fundamentalsStore.importFile(await file.text()));
+    } catch (err) {
+      console.error('Error reading fundamentals file:', err);
+      setImportResult({ imported: 0, errors: ['The file could not be read'] });
+    }
+  };
+
+  const renderSortHeader = (sortKey: SortKey, label: string, align: 'left' | 'right' = 'right') => (
+    <th
+      key={sortKey}
+      onClick={() => sortBy(sortKey)}
+      className={`px-4 py-3 ${align === 'right' ? 'text-right' : 'text-left'} text-gray-300 font-semibold cursor-pointer select-none hover:text-white`}
+    >
+      <span className="inline-flex items-center">
+        {label}
+        {criteria.sortBy === sortKey && (
+          criteria.sortDirection === 'desc' ? <ArrowDown className="w-3 h-3 ml-1" /> : <ArrowUp className="w-3 h-3 ml-1" />
+        )}
+      </span>
+    </th>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 pt-8 pb-16">
+      <div className="container mx-auto px-6">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-white mb-4">NSE Stock Screener</h1>
+          <p className="text-gray-300 text-lg max-w-2xl mx-auto">
+            Browse every Nairobi Securities Exchange listing, filter by sector and trading ranges, and save your screens.
+          </p>
+          {lastUpdated && (
+            <div className="mt-4 flex items-center justify-center text-sm text-gray-400">
+              <Activity className="w-4 h-4 mr-2" />
+              Data last updated: {lastUpdated.toLocaleTimeString()}
+              <button onClick={refresh} className="ml-4 text-green-400 hover:text-green-300 flex items-center">
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Refresh
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="max-w-2xl mx-auto mb-8">
+            <ErrorNotice error={error} onRetry={refresh} />
+          </div>
+        )}
+
+        <div className="grid lg:grid-cols-4 gap-8">
+          {/* Filters */}
+          <div className="lg:col-span-1 space-y-6">
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+              <h2 className="text-lg font-bold text-white mb-4 flex items-center">
+                <Save className="w-5 h-5 mr-2 text-green-400" />
+                Screens
+              </h2>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {[...builtInScreens, ...savedScreens].map(screen => (
+                  <span
+                    key={`${screen.savedAt ? 'saved' : 'built-in'}:${screen.name}`}
+                    className={`inline-flex items-center rounded-full border text-sm ${
+                      activeScreen === screen.name
+                        ? 'bg-green-600/20 border-green-500/40 text-green-300'
+                        : 'bg-slate-700/50 border-slate-600 text-gray-300'
+                    }`}
+                  >
+                    <button onClick={() => loadScreen(screen)} className="px-3 py-1">{screen.name}</button>
+                    {screen.savedAt && (
+                      <button
+                        onClick={() => handleDelete(screen.name)}
+                        className="pr-2 text-gray-500 hover:text-red-400"
+                        title="Delete screen"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={screenName}
+                  onChange={(e) => setScreenName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                  placeholder="Screen name"
+                  className="flex-1 min-w-0 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <button
+                  onClick={handleSave}
+                  disabled={!screenName.trim()}
+                  className="px-3 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm rounded-lg"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-bold text-white flex items-center">
+                  <Filter className="w-5 h-5 mr-2 text-blue-400" />
+                  Filters
+                </h2>
+                <button
+                  onClick={() => {
+                    setCriteria(emptyCriteria);
+                    setActiveScreen(null);
+                  }}
+                  className="text-sm text-gray-400 hover:text-white"
+                >
+                  Reset
+                </button>
+              </div>
+
+              <input
+                type="text"
+                value={criteria.query}
+                onChange={(e) => updateCriteria({ query: e.target.value })}
+                placeholder="Ticker or name"
+                className="w-full px-3 py-2 mb-4 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+
+              <div className="space-y-3 mb-6">
+                {columns.map(column => (
+                  <div key={column.key}>
+                    <div className="text-gray-400 text-xs mb-1">
+                      {column.label}{column.unit ? ` (${column.unit})` : ''}
+                    </div>
+                    <div className="flex space-x-2">
+                      <BoundInput
+                        value={criteria.ranges[column.key]?.min}
+                        placeholder="Min"
+                        onChange={(value) => updateRange(column.key, 'min', value)}
+                      />
+                      <BoundInput
+                        value={criteria.ranges[column.key]?.max}
+                        placeholder="Max"
+                        onChange={(value) => updateRange(column.key, 'max', value)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="text-gray-400 text-xs mb-2">Sectors</div>
+              <div className="flex flex-wrap gap-2">
+                {NSE_SECTORS.map(sector => (
+                  <button
+                    key={sector}
+                    onClick={() => toggleSector(sector)}
+                    className={`px-2 py-1 rounded text-xs border transition-colors ${
+                      criteria.sectors.includes(sector)
+                        ? 'bg-blue-600/30 border-blue-500/50 text-blue-200'
+                        : 'bg-slate-700/50 border-slate-600 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {sector}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+              <h2 className="text-lg font-bold text-white mb-2 flex items-center">
+                <Upload className="w-5 h-5 mr-2 text-amber-400" />
+                Fundamentals
+              </h2>
+              <p className="text-gray-400 text-xs mb-4">
+                Valuations use each company's latest reported EPS, DPS, book value and shares outstanding.
+                {fundamentalsStore.importedCount > 0
+                  ? ` ${fundamentalsStore.importedCount} companies use imported figures.`
+                  : ' Built-in figures are a representative snapshot; import current filings to replace them.'}
+              </p>
+              <input ref={fileRef} type="file" accept=".csv,.json,text/csv,application/json" onChange={handleImport} className="hidden" />
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => fileRef.current?.click()}
+                  className="flex-1 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg"
+                >
+                  Import CSV or JSON
+                </button>
+                {fundamentalsStore.importedCount > 0 && (
+                  <button
+                    onClick={() => {
+                      fundamentalsStore.reset();
+                      setImportResult(null);
+                    }}
+                    className="px-3 py-2 text-gray-400 hover:text-red-400 text-sm"
+                  >
+                    Reset
+                  </button>
+                )}
+              </div>
+              <p className="text-gray-500 text-xs mt-2">
+                Columns: ticker, sector (one of the NSE sectors above, or blank), sharesOutstanding, eps, dps, bookValuePerShare, period, periodEnd (YYYY-MM-DD)
+              </p>
+              {importResult && (
+                <div className="mt-3 text-xs">
+                  <div className={importResult.imported > 0 ? 'text-green-400' : 'text-gray-400'}>
+                    Imported {importResult.imported} compan{importResult.imported === 1 ? 'y' : 'ies'}
+                  </div>
+                  {importResult.errors.slice(0, 5).map(message => (
+                    <div key={message} className="text-red-400">{message}</div>
+                  ))}
+                  {importResult.errors.length > 5 && (
+                    <div className="text-red-400">…and {importResult.errors.length - 5} more problems</div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="lg:col-span-3 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-700 text-gray-400 text-sm">
+              {rows.length} of {quotes.length} listings
+              {activeScreen && <span className="ml-2 text-green-400">· {activeScreen}</span>}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-700/50">
+                  <tr>
+                    {renderSortHeader('ticker', 'Stock', 'left')}
+                    <th className="px-4 py-3 text-left text-gray-300 font-semibold">Sector</th>
+                    {columns.map(column => renderSortHeader(column.key, column.label))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const tone = row.change > 0 ? 'text-green-400' : row.change < 0 ? 'text-red-400' : 'text-gray-400';
+                    return (
+                      <tr key={row.ticker} className="border-t border-slate-700 hover:bg-slate-700/30">
+                        <td className="px-4 py-3">
+                          <div className="text-white font-semibold">{row.ticker}</div>
+                          <div className="text-gray-400 text-xs">{row.name}</div>
+                        </td>
+                        <td className="px-4 py-3 text-gray-400">{row.sector}</td>
+                        <td className="px-4 py-3 text-right text-white">{formatNumber(row.price)}</td>
+                        <td className={`px-4 py-3 text-right ${tone}`}>{row.change > 0 ? '+' : ''}{formatNumber(row.change)}</td>
+                        <td className={`px-4 py-3 text-right ${tone}`}>{row.changePercent > 0 ? '+' : ''}{formatNumber(row.changePercent)}%</td>
+                        <td className="px-4 py-3 text-right text-gray-300">{row.volume.toLocaleString()}</td>
+                        <td className="px-4 py-3 text-right text-gray-300">{formatNumber(row.turnover, 0)}</td>
+                        <td className="px-4 py-3 text-right text-gray-300 whitespace-nowrap">{formatOptional(row.marketCap, value => formatMarketCap(value).replace('KES ', ''))}</td>
+                        <td className="px-4 py-3 text-right text-gray-300">{formatOptional(row.pe, value => formatNumber(value, 1))}</td>
+                        <td className="px-4 py-3 text-right text-gray-300">{formatOptional(row.pb, value => formatNumber(value, 2))}</td>
+                        <td className="px-4 py-3 text-right text-gray-300">{formatOptional(row.dividendYield, value => `${formatNumber(value, 1)}%`)}</td>
+                      </tr>
+                    );
+                  })}
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={columns.length + 2} className="px-4 py-12 text-center text-gray-500">
+                        {quotes.length === 0 ? 'Loading NSE listings...' : 'No listings match these filters.'}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockScreener;
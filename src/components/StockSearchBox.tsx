@@ -0,0 +1,188 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Search, Loader, Clock, X } from 'lucide-react';
+import { NSEStock } from '../types/market';
+import { addRecentSearch, clearRecentSearches, getRecentSearches, searchStocks, suggestStocks } from '../services/stockSearch';
+
+interface StockSearchBoxProps {
+  stocks: NSEStock[];
+  loading: boolean;
+  onSelect: (stock: NSEStock) => void;
+}
+
+const StockSearchBox: React.FC<StockSearchBoxProps> = ({ stocks, loading, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [recent, setRecent] = useState<string[]>(getRecentSearches);
+  const [suggestions, setSuggestions] = useState<NSEStock[] | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const matches = useMemo(() => (query.trim() ? searchStocks(query, stocks) : []), [query, stocks]);
+
+  // Recent tickers are shown while the box is empty, resolved against the latest quotes
+  const recentStocks = useMemo(
+    () => recent.map(ticker => stocks.find(stock => stock.Ticker === ticker)).filter((stock): stock is NSEStock => !!stock),
+    [recent, stocks]
+  );
+
+  const options = query.trim() ? matches.map(match => match.stock) : recentStocks;
+
+  const select = (stock: NSEStock) => {
+    setRecent(addRecentSearch(stock.Ticker));
+    setQuery('');
+    setOpen(false);
+    setSuggestions(null);
+    inputRef.current?.blur();
+    onSelect(stock);
+  };
+
+  const submit = () => {
+    if (!query.trim()) return;
+    const choice = options[highlighted] ?? options[0];
+    if (choice) {
+      select(choice);
+    } else {
+      setSuggestions(suggestStocks(query, stocks));
+      setOpen(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setOpen(true);
+        setHighlighted(index => (options.length === 0 ? 0 : (index + 1) % options.length));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlighted(index => (options.length === 0 ? 0 : (index - 1 + options.length) % options.length));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (open && options[highlighted] && !query.trim()) {
+          select(options[highlighted]);
+        } else {
+          submit();
+        }
+        break;
+      case 'Escape':
+        setOpen(false);
+        break;
+    }
+  };
+
+  const clearRecent = () => {
+    clearRecentSearches();
+    setRecent([]);
+  };
+
+  return (
+    <div className="relative">
+      <div className="relative">
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(0);
+            setOpen(true);
+            setSuggestions(null);
+          }}
+          onFocus={() => setOpen(true)}
+          // Delay so a click on an option registers before the list closes
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search by symbol or company (e.g., SCOM, Equity, KCB, EABL)"
+          role="combobox"
+          aria-expanded={open && options.length > 0}
+          aria-autocomplete="list"
+          className="w-full px-6 py-4 bg-slate-800/50 backdrop-blur-sm border border-slate-600 rounded-2xl text-white text-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent pl-14"
+        />
+        <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400 w-6 h-6" />
+        <button
+          onClick={submit}
+          disabled={loading}
+          className="absolute right-2 top-1/2 transform -translate-y-1/2 px-6 py-2 bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 disabled:opacity-50 text-white font-semibold rounded-xl transition-all duration-300 flex items-center"
+        >
+          {loading ? (
+            <>
+              <Loader className="w-4 h-4 mr-2 animate-spin" />
+              Analyzing...
+            </>
+          ) : (
+            'Analyze'
+          )}
+        </button>
+      </div>
+
+      {open && options.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-20 mt-2 w-full bg-slate-800 border border-slate-600 rounded-xl shadow-xl overflow-hidden"
+        >
+          {!query.trim() && (
+            <li className="flex items-center justify-between px-4 py-2 text-xs text-gray-500 border-b border-slate-700">
+              <span className="flex items-center">
+                <Clock className="w-3 h-3 mr-1" />
+                Recent searches
+              </span>
+              <button onMouseDown={(e) => e.preventDefault()} onClick={clearRecent} className="flex items-center hover:text-gray-300">
+                <X className="w-3 h-3 mr-1" />
+                Clear
+              </button>
+            </li>
+          )}
+          {options.map((stock, index) => (
+            <li
+              key={stock.Ticker}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(stock)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex items-center justify-between px-4 py-3 cursor-pointer ${
+                index === highlighted ? 'bg-slate-700' : 'hover:bg-slate-700/50'
+              }`}
+            >
+              <div>
+                <span className="text-white font-semibold mr-3">{stock.Ticker}</span>
+                <span className="text-gray-400 text-sm">{stock.Name}</span>
+              </div>
+              <div className="text-right text-sm">
+                <span className="text-white mr-2">KES {stock.Price.toFixed(2)}</span>
+                <span className={stock.Change > 0 ? 'text-green-400' : stock.Change < 0 ? 'text-red-400' : 'text-gray-400'}>
+                  {stock.Change > 0 ? '+' : ''}{stock.Change.toFixed(2)}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {suggestions && (
+        <div className="mt-4 bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-sm">
+          <div className="text-red-400">No NSE listing matches "{query}".</div>
+          {suggestions.length > 0 && (
+            <div className="mt-2 text-gray-300 flex flex-wrap items-center gap-2">
+              Did you mean
+              {suggestions.map(stock => (
+                <button
+                  key={stock.Ticker}
+                  onClick={() => select(stock)}
+                  className="px-3 py-1 bg-slate-700/50 hover:bg-slate-700 text-green-400 rounded-full border border-slate-600"
+                >
+                  {stock.Ticker} · {stock.Name}
+                </button>
+              ))}
+              ?
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockSearchBox;
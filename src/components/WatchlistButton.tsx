@@ -0,0 +1,39 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { useWatchlists } from '../hooks/useWatchlists';
+import { watchlistStore } from '../services/watchlists';
+
+interface WatchlistButtonProps {
+  ticker: string;
+  compact?: boolean;
+}
+
+// Toggles the ticker in the active watchlist
+const WatchlistButton: React.FC<WatchlistButtonProps> = ({ ticker, compact = false }) => {
+  const { active } = useWatchlists();
+  const watched = active.items.some(item => item.ticker === ticker.toUpperCase());
+  const title = watched ? `Remove from ${active.name}` : `Add to ${active.name}`;
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        watchlistStore.toggleTicker(ticker, active.id);
+      }}
+      title={title}
+      aria-pressed={watched}
+      className={compact
+        ? `p-1 rounded transition-colors ${watched ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-300'}`
+        : `flex items-center px-3 py-2 rounded-lg border text-sm transition-colors ${
+            watched
+              ? 'bg-yellow-500/10 border-yellow-500/40 text-yellow-300'
+              : 'bg-slate-700/50 border-slate-600 text-gray-300 hover:text-white'
+          }`}
+    >
+      <Star className={`w-4 h-4 ${compact ? '' : 'mr-2'}`} fill={watched ? 'currentColor' : 'none'} />
+      {!compact && (watched ? 'Watching' : 'Watch')}
+    </button>
+  );
+};
+
+export default WatchlistButton;
@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from 'react';
+import { Star, Plus, Trash2, Pencil, Activity, RefreshCw } from 'lucide-react';
+import { NSEStock } from '../types/market';
+import { useQuotes } from '../hooks/useQuotes';
+import { useWatchlists } from '../hooks/useWatchlists';
+import { WatchlistItem, watchlistStore } from '../services/watchlists';
+import ErrorNotice from './ErrorNotice';
+import StockSearchBox from './StockSearchBox';
+
+const formatNumber = (value: number, digits = 2) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+interface WatchlistRowProps {
+  listId: string;
+  item: WatchlistItem;
+  quote: NSEStock | undefined;
+}
+
+// Note and target are drafted locally and saved on blur, so typing does not write storage per keystroke
+const WatchlistRow: React.FC<WatchlistRowProps> = ({ listId, item, quote }) => {
+  const [note, setNote] = useState(item.note);
+  const [target, setTarget] = useState(item.targetPrice === null ? '' : String(item.targetPrice));
+
+  useEffect(() => setNote(item.note), [item.note]);
+  useEffect(() => setTarget(item.targetPrice === null ? '' : String(item.targetPrice)), [item.targetPrice]);
+
+  const saveTarget = () => {
+    const parsed = target.trim() === '' ? null : Number(target);
+    if (parsed !== null && (!Number.isFinite(parsed) || parsed <= 0)) {
+      setTarget(item.targetPrice === null ? '' : String(item.targetPrice));
+      return;
+    }
+    if (parsed !== item.targetPrice) watchlistStore.updateItem(listId, item.ticker, { targetPrice: parsed });
+  };
+
+  const saveNote = () => {
+    if (note !== item.note) watchlistStore.updateItem(listId, item.ticker, { note: note.trim() });
+  };
+
+  const tone = !quote || quote.Change === 0 ? 'text-gray-400' : quote.Change > 0 ? 'text-green-400' : 'text-red-400';
+  const previousClose = quote ? quote.Price - quote.Change : 0;
+  const changePercent = quote && previousClose !== 0 ? (quote.Change / previousClose) * 100 : 0;
+  const toTarget = quote && item.targetPrice !== null ? ((item.targetPrice - quote.Price) / quote.Price) * 100 : null;
+
+  return (
+    <tr className="border-t border-slate-700 hover:bg-slate-700/30 align-top">
+      <td className="px-4 py-3">
+        <div className="text-white font-semibold">{item.ticker}</div>
+        <div className="text-gray-400 text-xs">{quote?.Name ?? 'No quote'}</div>
+      </td>
+      <td className="px-4 py-3 text-right text-white">{quote ? formatNumber(quote.Price) : '—'}</td>
+      <td className={`px-4 py-3 text-right ${tone}`}>
+        {quote ? `${quote.Change > 0 ? '+' : ''}${formatNumber(quote.Change)}` : '—'}
+        {quote && <div className="text-xs">{changePercent > 0 ? '+' : ''}{formatNumber(changePercent)}%</div>}
+      </td>
+      <td className="px-4 py-3 text-right text-gray-300">{quote ? quote.Volume.toLocaleString() : '—'}</td>
+      <td className="px-4 py-3 text-right">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onBlur={saveTarget}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          placeholder="—"
+          className="w-24 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white text-sm text-right focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        {toTarget !== null && (
+          <div className={`text-xs mt-1 ${toTarget >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {toTarget >= 0 ? '+' : ''}{formatNumber(toTarget, 1)}% to target
+          </div>
+        )}
+      </td>
+      <td className="px-4 py-3">
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={saveNote}
+          rows={1}
+          placeholder="Add a note"
+          className="w-full min-w-[12rem] px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white text-sm resize-y focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+      </td>
+      <td className="px-4 py-3 text-right">
+        <button
+          onClick={() => watchlistStore.removeTicker(item.ticker, listId)}
+          className="text-gray-500 hover:text-red-400"
+          title="Remove from watchlist"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </td>
+    </tr>
+  );
+};
+
+const Watchlists: React.FC = () => {
+  const { quotes, lastUpdated, loading, error, getQuote, refresh } = useQuotes();
+  const { lists, active } = useWatchlists();
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState(false);
+  const [renameText, setRenameText] = useState('');
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    watchlistStore.createList(newName);
+    setNewName('');
+  };
+
+  const handleRename = () => {
+    watchlistStore.renameList(active.id, renameText);
+    setRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (active.items.length > 0 && !window.confirm(`Delete "${active.name}" and its ${active.items.length} stocks?`)) return;
+    watchlistStore.deleteList(active.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 pt-8 pb-16">
+      <div className="container mx-auto px-6">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-white mb-4">Watchlists</h1>
+          <p className="text-gray-300 text-lg max-w-2xl mx-auto">
+            Track the NSE stocks you follow with live prices, your own notes and target prices.
+          </p>
+          {lastUpdated && (
+            <div className="mt-4 flex items-center justify-center text-sm text-gray-400">
+              <Activity className="w-4 h-4 mr-2" />
+              Data last updated: {lastUpdated.toLocaleTimeString()}
+              <button onClick={refresh} className="ml-4 text-green-400 hover:text-green-300 flex items-center">
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Refresh
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="max-w-2xl mx-auto mb-8">
+            <ErrorNotice error={error} onRetry={refresh} />
+          </div>
+        )}
+
+        {/* List selector */}
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          {lists.map(list => (
+            <button
+              key={list.id}
+              onClick={() => {
+                watchlistStore.setActive(list.id);
+                setRenaming(false);
+              }}
+              className={`px-4 py-2 rounded-full border text-sm transition-colors ${
+                list.id === active.id
+                  ? 'bg-green-600/20 border-green-500/40 text-green-300'
+                  : 'bg-slate-700/50 border-slate-600 text-gray-300 hover:text-white'
+              }`}
+            >
+              {list.name}
+              <span className="ml-2 text-xs text-gray-400">{list.items.length}</span>
+            </button>
+          ))}
+          <div className="flex items-center space-x-2 ml-auto">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="New watchlist"
+              className="w-40 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="p-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg"
+              title="Create watchlist"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl">
+          <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4 border-b border-slate-700">
+            {renaming ? (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={renameText}
+                  onChange={(e) => setRenameText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename();
+                    if (e.key === 'Escape') setRenaming(false);
+                  }}
+                  autoFocus
+                  className="px-3 py-1 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <button onClick={handleRename} className="text-sm text-green-400 hover:text-green-300">Save</button>
+                <button onClick={() => setRenaming(false)} className="text-sm text-gray-400 hover:text-white">Cancel</button>
+              </div>
+            ) : (
+              <h2 className="text-xl font-bold text-white flex items-center">
+                <Star className="w-5 h-5 mr-2 text-yellow-400" />
+                {active.name}
+                <button
+                  onClick={() => {
+                    setRenameText(active.name);
+                    setRenaming(true);
+                  }}
+                  className="ml-3 text-gray-500 hover:text-white"
+                  title="Rename watchlist"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={handleDelete} className="ml-2 text-gray-500 hover:text-red-400" title="Delete watchlist">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </h2>
+            )}
+            <div className="w-full md:w-80">
+              <StockSearchBox
+                stocks={quotes}
+                loading={loading}
+                onSelect={(stock) => watchlistStore.addTicker(stock.Ticker, active.id)}
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-700/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-gray-300 font-semibold">Stock</th>
+                  <th className="px-4 py-3 text-right text-gray-300 font-semibold">Price</th>
+                  <th className="px-4 py-3 text-right text-gray-300 font-semibold">Change</th>
+                  <th className="px-4 py-3 text-right text-gray-300 font-semibold">Volume</th>
+                  <th className="px-4 py-3 text-right text-gray-300 font-semibold">Target (KES)</th>
+                  <th className="px-4 py-3 text-left text-gray-300 font-semibold">Notes</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {active.items.map(item => (
+                  <WatchlistRow key={`${active.id}:${item.ticker}`} listId={active.id} item={item} quote={getQuote(item.ticker)} />
+                ))}
+                {active.items.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-12 text-center text-gray-500">
+                      This watchlist is empty. Search above, or use the star on the research page and market dashboard.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Watchlists;
@@ -0,0 +1,74 @@
+// Runtime configuration read from Vite environment variables
+
+export type MarketDataProviderKind = 'http' | 'local';
+
+export type LLMUseCase = 'stock' | 'market' | 'portfolio' | 'planning' | 'sentiment';
+
+export type SentimentScorerKind = 'lexicon' | 'llm';
+
+export interface LLMSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+const env = import.meta.env as unknown as Record<string, string | undefined>;
+
+const readNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Per use case overrides, e.g. VITE_LLM_PORTFOLIO_MODEL or VITE_LLM_STOCK_MAX_TOKENS
+const readUseCaseSettings = (useCase: LLMUseCase): Partial<LLMSettings> => {
+  const prefix = `VITE_LLM_${useCase.toUpperCase()}`;
+  const settings: Partial<LLMSettings> = {};
+  const model = env[`${prefix}_MODEL`];
+  const temperature = readNumber(env[`${prefix}_TEMPERATURE`]);
+  const maxTokens = readNumber(env[`${prefix}_MAX_TOKENS`]);
+  if (model) settings.model = model;
+  if (temperature !== undefined) settings.temperature = temperature;
+  if (maxTokens !== undefined) settings.maxTokens = maxTokens;
+  return settings;
+};
+
+// Backend proxy (server/index.ts) that holds the API keys
+const apiBaseUrl = (import.meta.env.VITE_API_BASE_URL || '/api').replace(/\/+$/, '');
+
+export const config = {
+  apiBaseUrl,
+  marketData: {
+    provider: (import.meta.env.VITE_MARKET_DATA_PROVIDER || 'http') as MarketDataProviderKind,
+    // How often the shared quote store refreshes while any tab is showing prices
+    pollIntervalMs: (readNumber(import.meta.env.VITE_QUOTE_POLL_SECONDS) ?? 60) * 1000
+  },
+  llm: {
+    // Defaults to the proxy. Any OpenAI-compatible server that needs no key also works,
+    // e.g. http://localhost:11434/v1 for Ollama
+    baseUrl: import.meta.env.VITE_LLM_BASE_URL || `${apiBaseUrl}/ai`,
+    defaults: {
+      model: import.meta.env.VITE_LLM_MODEL || 'moonshotai/kimi-k2-instruct-0905',
+      temperature: readNumber(import.meta.env.VITE_LLM_TEMPERATURE) ?? 0.7,
+      maxTokens: readNumber(import.meta.env.VITE_LLM_MAX_TOKENS) ?? 1000
+    } as LLMSettings,
+    // Prompt budget for multi-turn chats; older turns are summarised beyond this
+    contextTokens: readNumber(import.meta.env.VITE_LLM_CONTEXT_TOKENS) ?? 8000,
+    useCases: {
+      stock: readUseCaseSettings('stock'),
+      market: readUseCaseSettings('market'),
+      portfolio: readUseCaseSettings('portfolio'),
+      planning: readUseCaseSettings('planning'),
+      // Scoring should be repeatable, so it runs cold unless overridden
+      sentiment: { temperature: 0, ...readUseCaseSettings('sentiment') }
+    } as Record<LLMUseCase, Partial<LLMSettings>>
+  },
+  news: {
+    // Results older than this are dropped from prompts and the news panel
+    recencyDays: readNumber(import.meta.env.VITE_NEWS_RECENCY_DAYS) ?? 14
+  },
+  sentiment: {
+    // "lexicon" scores headlines offline; "llm" asks the model and falls back to the lexicon on failure
+    scorer: (import.meta.env.VITE_SENTIMENT_SCORER || 'lexicon') as SentimentScorerKind
+  }
+};
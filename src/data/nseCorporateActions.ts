@@ -0,0 +1,39 @@
+// Seed corporate actions for the fixture listings. Dates and amounts are a
+// representative calendar, not an official record; add confirmed notices from
+// the NSE or company announcements through the calendar view.
+import { CorporateAction } from '../types/market';
+
+const dividend = (
+  ticker: string,
+  dividendKind: 'interim' | 'final' | 'special',
+  amountPerShare: number,
+  bookClosure: string,
+  paymentDate: string
+): CorporateAction => ({ id: `${ticker}-dividend-${bookClosure}`, ticker, type: 'dividend', dividendKind, amountPerShare, bookClosure, paymentDate });
+
+export const nseCorporateActionsSeed: CorporateAction[] = [
+  dividend('SCOM', 'final', 0.65, '2025-07-31', '2025-08-29'),
+  dividend('SCOM', 'interim', 0.55, '2026-01-30', '2026-03-31'),
+  dividend('SCOM', 'final', 0.65, '2026-07-31', '2026-08-31'),
+  dividend('SCOM', 'interim', 0.55, '2027-01-29', '2027-03-31'),
+  dividend('EQTY', 'final', 4.25, '2026-05-29', '2026-06-19'),
+  dividend('KCB', 'final', 2.0, '2026-05-15', '2026-06-12'),
+  dividend('KCB', 'interim', 1.5, '2026-09-05', '2026-10-31'),
+  dividend('COOP', 'final', 1.5, '2026-05-22', '2026-06-05'),
+  dividend('ABSA', 'interim', 0.2, '2026-09-19', '2026-10-24'),
+  dividend('NCBA', 'interim', 2.75, '2026-09-12', '2026-09-30'),
+  dividend('SCBK', 'interim', 8.0, '2026-09-26', '2026-10-24'),
+  dividend('EABL', 'interim', 2.5, '2026-02-27', '2026-04-30'),
+  dividend('EABL', 'final', 5.5, '2026-09-26', '2026-10-30'),
+  dividend('BAT', 'final', 45.0, '2026-04-24', '2026-05-29'),
+  dividend('TOTL', 'final', 1.92, '2026-06-12', '2026-07-31'),
+  dividend('JUB', 'final', 13.0, '2026-06-05', '2026-07-03'),
+  dividend('NSE', 'final', 0.16, '2026-06-26', '2026-07-24'),
+  dividend('CTUM', 'final', 0.6, '2026-09-18', '2026-11-27'),
+  dividend('CARB', 'final', 1.7, '2026-11-27', '2026-12-18'),
+  dividend('KEGN', 'final', 0.65, '2026-12-18', '2027-02-26'),
+  dividend('KPLC', 'final', 0.7, '2026-12-11', '2027-02-26'),
+  { id: 'HFCK-rights-2026-03-06', ticker: 'HFCK', type: 'rights', newShares: 1, heldShares: 1, subscriptionPrice: 4.0, bookClosure: '2026-03-06', paymentDate: '2026-04-10' },
+  { id: 'KNRE-bonus-2026-11-20', ticker: 'KNRE', type: 'bonus', newShares: 1, heldShares: 5, bookClosure: '2026-11-20', paymentDate: '2026-12-11' },
+  { id: 'KUKZ-split-2026-11-13', ticker: 'KUKZ', type: 'split', newShares: 10, heldShares: 1, bookClosure: '2026-11-13' }
+];
@@ -0,0 +1,75 @@
+// Fixture data for the local market data provider. Prices are a representative
+// snapshot of NSE listings and are not kept up to date.
+import { NSEStock, BraveSearchResult } from '../types/market';
+
+export const nseQuoteFixtures: NSEStock[] = [
+  { Ticker: 'SCOM', Name: 'Safaricom PLC', Volume: 4823100, Price: 17.35, Change: 0.25 },
+  { Ticker: 'EQTY', Name: 'Equity Group Holdings PLC', Volume: 1204500, Price: 46.8, Change: -0.45 },
+  { Ticker: 'KCB', Name: 'KCB Group PLC', Volume: 986300, Price: 38.2, Change: 0.7 },
+  { Ticker: 'COOP', Name: 'Co-operative Bank of Kenya Ltd', Volume: 642800, Price: 15.1, Change: 0.05 },
+  { Ticker: 'ABSA', Name: 'ABSA Bank Kenya PLC', Volume: 311200, Price: 17.6, Change: -0.1 },
+  { Ticker: 'NCBA', Name: 'NCBA Group PLC', Volume: 154900, Price: 48.25, Change: 0.5 },
+  { Ticker: 'SCBK', Name: 'Standard Chartered Bank Kenya Ltd', Volume: 21300, Price: 245.0, Change: -1.75 },
+  { Ticker: 'SBIC', Name: 'Stanbic Holdings PLC', Volume: 18400, Price: 138.5, Change: 0.0 },
+  { Ticker: 'DTK', Name: 'Diamond Trust Bank Kenya Ltd', Volume: 40700, Price: 66.0, Change: 1.0 },
+  { Ticker: 'IMH', Name: 'I&M Group PLC', Volume: 98500, Price: 29.95, Change: 0.3 },
+  { Ticker: 'HFCK', Name: 'HF Group PLC', Volume: 203600, Price: 6.1, Change: -0.08 },
+  { Ticker: 'EABL', Name: 'East African Breweries PLC', Volume: 87200, Price: 182.0, Change: 2.5 },
+  { Ticker: 'BAT', Name: 'British American Tobacco Kenya PLC', Volume: 6100, Price: 372.5, Change: -2.0 },
+  { Ticker: 'BAMB', Name: 'Bamburi Cement Ltd', Volume: 3200, Price: 55.0, Change: 0.0 },
+  { Ticker: 'KEGN', Name: 'KenGen Company PLC', Volume: 512400, Price: 4.3, Change: 0.06 },
+  { Ticker: 'KPLC', Name: 'Kenya Power & Lighting Co PLC', Volume: 1340800, Price: 8.62, Change: 0.4 },
+  { Ticker: 'TOTL', Name: 'TotalEnergies Marketing Kenya PLC', Volume: 11800, Price: 21.5, Change: -0.25 },
+  { Ticker: 'JUB', Name: 'Jubilee Holdings Ltd', Volume: 4900, Price: 185.0, Change: 3.0 },
+  { Ticker: 'BRIT', Name: 'Britam Holdings PLC', Volume: 276100, Price: 6.78, Change: 0.12 },
+  { Ticker: 'CIC', Name: 'CIC Insurance Group PLC', Volume: 422300, Price: 2.55, Change: -0.03 },
+  { Ticker: 'KNRE', Name: 'Kenya Reinsurance Corporation Ltd', Volume: 388700, Price: 1.48, Change: 0.02 },
+  { Ticker: 'NMG', Name: 'Nation Media Group PLC', Volume: 15600, Price: 14.9, Change: -0.35 },
+  { Ticker: 'KQ', Name: 'Kenya Airways Ltd', Volume: 0, Price: 3.83, Change: 0.0 },
+  { Ticker: 'CTUM', Name: 'Centum Investment Co PLC', Volume: 67300, Price: 10.85, Change: 0.15 },
+  { Ticker: 'NSE', Name: 'Nairobi Securities Exchange PLC', Volume: 22100, Price: 6.2, Change: 0.04 },
+  { Ticker: 'KUKZ', Name: 'Kakuzi PLC', Volume: 500, Price: 385.0, Change: 0.0 },
+  { Ticker: 'SASN', Name: 'Sasini PLC', Volume: 2400, Price: 15.05, Change: -0.2 },
+  { Ticker: 'CARB', Name: 'Carbacid Investments PLC', Volume: 8700, Price: 21.0, Change: 0.5 },
+  { Ticker: 'CRWN', Name: 'Crown Paints Kenya PLC', Volume: 1100, Price: 36.0, Change: 0.0 },
+  { Ticker: 'UNGA', Name: 'Unga Group Ltd', Volume: 900, Price: 15.2, Change: -0.3 }
+];
+
+export const braveSearchFixtures: BraveSearchResult[] = [
+  {
+    title: 'NSE closes week higher as banking stocks rally',
+    url: 'https://example.com/markets/nse-weekly-banking-rally',
+    description: 'The Nairobi Securities Exchange NASI gained 1.2% this week led by KCB, Equity and Co-op Bank on strong half-year earnings.',
+    published: '2 days ago'
+  },
+  {
+    title: 'Safaricom M-Pesa revenue growth offsets Ethiopia losses',
+    url: 'https://example.com/business/safaricom-mpesa-ethiopia',
+    description: 'Safaricom reported M-Pesa revenue growth of 14% while investment in Safaricom Ethiopia continued to weigh on group earnings.',
+    published: '4 days ago'
+  },
+  {
+    title: 'CBK holds Central Bank Rate as inflation eases',
+    url: 'https://example.com/economy/cbk-rate-decision',
+    description: 'The Monetary Policy Committee retained the Central Bank Rate citing easing inflation and a stable shilling against the dollar.',
+    published: '1 week ago'
+  },
+  {
+    title: 'EABL declares final dividend despite excise pressure',
+    url: 'https://example.com/companies/eabl-final-dividend',
+    description: 'East African Breweries announced a final dividend as volumes recovered, although higher excise duty continued to squeeze margins.',
+    published: '1 week ago'
+  },
+  {
+    title: 'KenGen and KPLC shares rise on energy sector reforms',
+    url: 'https://example.com/energy/kengen-kplc-reforms',
+    description: 'Energy counters gained after the government outlined tariff reforms and a plan to settle arrears owed to power producers.',
+    published: '2 weeks ago'
+  },
+  {
+    title: 'Foreign investors turn net buyers at the NSE',
+    url: 'https://example.com/markets/foreign-investors-net-buyers',
+    description: 'Foreign investor participation at the NSE improved with net inflows concentrated in Safaricom and tier-one banks.',
+    published: '2 weeks ago'
+  }
+];
@@ -0,0 +1,37 @@
+// Seed fundamentals for the fixture listings. Figures are a representative
+// snapshot of recent annual reports and are not kept up to date; import current
+// filings through the screener's fundamentals panel to replace them.
+import { CompanyFundamentals } from '../types/market';
+
+export const nseFundamentalsSeed: CompanyFundamentals[] = [
+  { ticker: 'SCOM', sector: 'Telecommunication', sharesOutstanding: 40_065_428_000, eps: 1.55, dps: 1.2, bookValuePerShare: 3.45, period: 'FY2024', periodEnd: '2024-03-31' },
+  { ticker: 'EQTY', sector: 'Banking', sharesOutstanding: 3_773_674_802, eps: 12.29, dps: 4.0, bookValuePerShare: 67.1, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'KCB', sector: 'Banking', sharesOutstanding: 3_213_462_815, eps: 19.2, dps: 2.0, bookValuePerShare: 78.5, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'COOP', sector: 'Banking', sharesOutstanding: 5_867_174_695, eps: 4.33, dps: 1.5, bookValuePerShare: 27.4, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'ABSA', sector: 'Banking', sharesOutstanding: 5_431_536_000, eps: 3.22, dps: 1.75, bookValuePerShare: 15.2, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'NCBA', sector: 'Banking', sharesOutstanding: 1_647_519_532, eps: 13.29, dps: 5.5, bookValuePerShare: 91.3, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'SCBK', sector: 'Banking', sharesOutstanding: 377_865_344, eps: 52.2, dps: 45.0, bookValuePerShare: 190.4, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'SBIC', sector: 'Banking', sharesOutstanding: 395_321_638, eps: 33.9, dps: 20.74, bookValuePerShare: 165.0, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'DTK', sector: 'Banking', sharesOutstanding: 279_602_220, eps: 25.1, dps: 6.0, bookValuePerShare: 262.0, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'IMH', sector: 'Banking', sharesOutstanding: 1_653_621_476, eps: 7.92, dps: 3.0, bookValuePerShare: 51.6, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'HFCK', sector: 'Banking', sharesOutstanding: 1_538_258_373, eps: 0.55, dps: 0, bookValuePerShare: 7.1, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'EABL', sector: 'Manufacturing & Allied', sharesOutstanding: 790_774_356, eps: 13.0, dps: 7.0, bookValuePerShare: 40.2, period: 'FY2024', periodEnd: '2024-06-30' },
+  { ticker: 'BAT', sector: 'Manufacturing & Allied', sharesOutstanding: 100_000_000, eps: 45.0, dps: 45.0, bookValuePerShare: 101.5, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'UNGA', sector: 'Manufacturing & Allied', sharesOutstanding: 75_708_873, eps: 2.5, dps: 0, bookValuePerShare: 90.4, period: 'FY2024', periodEnd: '2024-06-30' },
+  { ticker: 'CARB', sector: 'Manufacturing & Allied', sharesOutstanding: 254_851_988, eps: 3.6, dps: 1.7, bookValuePerShare: 22.3, period: 'FY2024', periodEnd: '2024-07-31' },
+  { ticker: 'BAMB', sector: 'Construction & Allied', sharesOutstanding: 362_959_275, eps: 2.5, dps: 0, bookValuePerShare: 84.6, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'CRWN', sector: 'Construction & Allied', sharesOutstanding: 142_362_675, eps: 1.5, dps: 0.6, bookValuePerShare: 25.0, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'KEGN', sector: 'Energy & Petroleum', sharesOutstanding: 6_594_522_339, eps: 0.96, dps: 0.65, bookValuePerShare: 40.1, period: 'FY2024', periodEnd: '2024-06-30' },
+  { ticker: 'KPLC', sector: 'Energy & Petroleum', sharesOutstanding: 1_951_469_020, eps: 15.9, dps: 0.7, bookValuePerShare: 45.3, period: 'FY2024', periodEnd: '2024-06-30' },
+  { ticker: 'TOTL', sector: 'Energy & Petroleum', sharesOutstanding: 629_542_000, eps: 5.3, dps: 1.92, bookValuePerShare: 50.2, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'JUB', sector: 'Insurance', sharesOutstanding: 72_472_950, eps: 55.0, dps: 13.0, bookValuePerShare: 600.0, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'BRIT', sector: 'Insurance', sharesOutstanding: 2_523_486_816, eps: 0.8, dps: 0, bookValuePerShare: 14.0, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'CIC', sector: 'Insurance', sharesOutstanding: 2_615_578_400, eps: 0.6, dps: 0.13, bookValuePerShare: 3.1, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'KNRE', sector: 'Insurance', sharesOutstanding: 2_800_000_000, eps: 0.9, dps: 0.15, bookValuePerShare: 13.2, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'NMG', sector: 'Commercial & Services', sharesOutstanding: 190_591_680, eps: 0.8, dps: 0, bookValuePerShare: 40.0, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'KQ', sector: 'Commercial & Services', sharesOutstanding: 5_681_423_000, eps: -3.5, dps: 0, bookValuePerShare: -25.0, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'CTUM', sector: 'Investment', sharesOutstanding: 665_441_714, eps: 1.0, dps: 0.6, bookValuePerShare: 70.0, period: 'FY2024', periodEnd: '2024-03-31' },
+  { ticker: 'NSE', sector: 'Investment Services', sharesOutstanding: 259_503_186, eps: 0.1, dps: 0.16, bookValuePerShare: 8.0, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'KUKZ', sector: 'Agricultural', sharesOutstanding: 24_000_000, eps: 20.0, dps: 10.0, bookValuePerShare: 250.0, period: 'FY2024', periodEnd: '2024-12-31' },
+  { ticker: 'SASN', sector: 'Agricultural', sharesOutstanding: 228_055_500, eps: 2.9, dps: 1.0, bookValuePerShare: 18.0, period: 'FY2024', periodEnd: '2024-09-30' }
+];
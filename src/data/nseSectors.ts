@@ -0,0 +1,123 @@
+// NSE sector classification by ticker, following the exchange's own sector names
+export const NSE_SECTORS = [
+  'Agricultural',
+  'Automobiles & Accessories',
+  'Banking',
+  'Commercial & Services',
+  'Construction & Allied',
+  'Energy & Petroleum',
+  'Insurance',
+  'Investment',
+  'Investment Services',
+  'Manufacturing & Allied',
+  'Telecommunication',
+  'Real Estate Investment Trust',
+  'Exchange Traded Fund'
+] as const;
+
+export type NSESector = typeof NSE_SECTORS[number];
+
+// Every equity, REIT and ETF on the main and growth enterprise market segments,
+// including suspended counters so historical data stays classified. Update this
+// table when the exchange announces a listing, delisting or reclassification.
+export const nseSectorByTicker: Record<string, NSESector> = {
+  // Agricultural
+  AMAC: 'Agricultural',
+  EGAD: 'Agricultural',
+  KAPC: 'Agricultural',
+  KUKZ: 'Agricultural',
+  LIMT: 'Agricultural',
+  SASN: 'Agricultural',
+  WTK: 'Agricultural',
+
+  // Automobiles & Accessories
+  CGEN: 'Automobiles & Accessories',
+
+  // Banking
+  ABSA: 'Banking',
+  BKG: 'Banking',
+  COOP: 'Banking',
+  DTK: 'Banking',
+  EQTY: 'Banking',
+  HFCK: 'Banking',
+  IMH: 'Banking',
+  KCB: 'Banking',
+  NCBA: 'Banking',
+  SBIC: 'Banking',
+  SCBK: 'Banking',
+
+  // Commercial & Services
+  DCON: 'Commercial & Services',
+  EVRD: 'Commercial & Services',
+  HBER: 'Commercial & Services',
+  KQ: 'Commercial & Services',
+  LKL: 'Commercial & Services',
+  NBV: 'Commercial & Services',
+  NMG: 'Commercial & Services',
+  SCAN: 'Commercial & Services',
+  SGL: 'Commercial & Services',
+  SMER: 'Commercial & Services',
+  TPSE: 'Commercial & Services',
+  UCHM: 'Commercial & Services',
+  XPRS: 'Commercial & Services',
+
+  // Construction & Allied
+  ARM: 'Construction & Allied',
+  BAMB: 'Construction & Allied',
+  CABL: 'Construction & Allied',
+  CRWN: 'Construction & Allied',
+  PORT: 'Construction & Allied',
+
+  // Energy & Petroleum
+  KEGN: 'Energy & Petroleum',
+  KPLC: 'Energy & Petroleum',
+  TOTL: 'Energy & Petroleum',
+  UMME: 'Energy & Petroleum',
+
+  // Insurance
+  BRIT: 'Insurance',
+  CIC: 'Insurance',
+  JUB: 'Insurance',
+  KNRE: 'Insurance',
+  LBTY: 'Insurance',
+  SLAM: 'Insurance',
+
+  // Investment
+  CTUM: 'Investment',
+  HAFR: 'Investment',
+  KURV: 'Investment',
+  OCH: 'Investment',
+  TCL: 'Investment',
+
+  // Investment Services
+  NSE: 'Investment Services',
+
+  // Manufacturing & Allied
+  BAT: 'Manufacturing & Allied',
+  BOC: 'Manufacturing & Allied',
+  CARB: 'Manufacturing & Allied',
+  EABL: 'Manufacturing & Allied',
+  FTGH: 'Manufacturing & Allied',
+  MSC: 'Manufacturing & Allied',
+  ORCH: 'Manufacturing & Allied',
+  SKL: 'Manufacturing & Allied',
+  UNGA: 'Manufacturing & Allied',
+
+  // Telecommunication
+  SCOM: 'Telecommunication',
+
+  // Real Estate Investment Trust
+  FAHR: 'Real Estate Investment Trust',
+  LAPR: 'Real Estate Investment Trust',
+
+  // Exchange Traded Fund
+  GLD: 'Exchange Traded Fund',
+  SMWF: 'Exchange Traded Fund'
+};
+
+export const sectorOf = (ticker: string): NSESector | 'Unclassified' =>
+  nseSectorByTicker[ticker.toUpperCase()] ?? 'Unclassified';
+
+// Canonical spelling of a sector name from free text, or null when it is not one of the exchange's sectors
+export const toNSESector = (value: string): NSESector | null =>
+  NSE_SECTORS.find(sector => sector.toLowerCase() === value.trim().toLowerCase()) ?? null;
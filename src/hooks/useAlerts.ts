@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { AlertState, alertStore } from '../services/alerts';
+
+export interface UseAlertsResult extends AlertState {
+  unreadCount: number;
+}
+
+export const useAlerts = (): UseAlertsResult => {
+  const state = useSyncExternalStore(alertStore.subscribe, alertStore.getSnapshot);
+  return { ...state, unreadCount: state.inbox.filter(event => !event.read).length };
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { CorporateAction } from '../types/market';
+import { corporateActionStore } from '../services/corporateActions';
+
+// Seed and user-entered corporate actions, re-rendering when either list changes
+export const useCorporateActions = (): CorporateAction[] =>
+  useSyncExternalStore(corporateActionStore.subscribe, corporateActionStore.getSnapshot);
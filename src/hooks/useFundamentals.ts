@@ -0,0 +1,15 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { CompanyFundamentals } from '../types/market';
+import { fundamentalsStore } from '../services/fundamentals';
+
+export interface UseFundamentalsResult {
+  byTicker: Record<string, CompanyFundamentals>;
+  getFundamentals: (ticker: string) => CompanyFundamentals | undefined;
+}
+
+// Re-renders when fundamentals are imported or reset
+export const useFundamentals = (): UseFundamentalsResult => {
+  const byTicker = useSyncExternalStore(fundamentalsStore.subscribe, fundamentalsStore.getSnapshot);
+  const getFundamentals = useCallback((ticker: string) => byTicker[ticker.toUpperCase()], [byTicker]);
+  return { byTicker, getFundamentals };
+};
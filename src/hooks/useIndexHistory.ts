@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { IndexHistoryState, indexHistoryStore } from '../services/marketBreadth';
+
+// Daily index levels and breadth, updated as each quote refresh is recorded
+export const useIndexHistory = (): IndexHistoryState =>
+  useSyncExternalStore(indexHistoryStore.subscribe, indexHistoryStore.getSnapshot);
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { priceHistory, startOfDay } from '../services/priceHistory';
+import { useQuotes } from './useQuotes';
+
+// Today's polled prices for a ticker, reloaded each time the quote store refreshes
+export const useIntradayPrices = (ticker: string | null): number[] => {
+  const [prices, setPrices] = useState<number[]>([]);
+  const { lastUpdated } = useQuotes();
+
+  useEffect(() => {
+    if (!ticker) {
+      setPrices([]);
+      return;
+    }
+    let cancelled = false;
+    const now = Date.now();
+
+    priceHistory.getTicks(ticker, startOfDay(now), now)
+      .then(ticks => {
+        if (!cancelled) setPrices(ticks.map(tick => tick.price));
+      })
+      .catch(error => console.error('Error loading intraday prices:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ticker, lastUpdated]);
+
+  return prices;
+};
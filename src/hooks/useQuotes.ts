@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { NSEStock } from '../types/market';
+import { QuoteSnapshot, quoteStore } from '../services/quoteStore';
+
+export interface UseQuotesResult extends QuoteSnapshot {
+  getQuote: (ticker: string) => NSEStock | undefined;
+  refresh: () => Promise<NSEStock[] | null>;
+}
+
+// Subscribes to the shared quote store and keeps it polling while mounted
+export const useQuotes = (): UseQuotesResult => {
+  const snapshot = useSyncExternalStore(quoteStore.subscribe, quoteStore.getSnapshot);
+
+  useEffect(() => quoteStore.startPolling(), []);
+
+  const getQuote = useCallback(
+    (ticker: string) => snapshot.byTicker[ticker.toUpperCase()],
+    [snapshot.byTicker]
+  );
+  const refresh = useCallback(() => quoteStore.refresh(), []);
+
+  return { ...snapshot, getQuote, refresh };
+};
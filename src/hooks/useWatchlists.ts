@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { Watchlist, WatchlistState, watchlistStore } from '../services/watchlists';
+
+export interface UseWatchlistsResult extends WatchlistState {
+  active: Watchlist;
+}
+
+// Re-renders whenever any watchlist changes, in this component or elsewhere
+export const useWatchlists = (): UseWatchlistsResult => {
+  const state = useSyncExternalStore(watchlistStore.subscribe, watchlistStore.getSnapshot);
+  const active = state.lists.find(list => list.id === state.activeId) ?? state.lists[0];
+  return { ...state, active };
+};
@@ -0,0 +1,286 @@
+// Price and volume alert rules, evaluated against every quote refresh from the
+// shared quote store. Rules and the triggered-alert inbox persist in localStorage.
+import { NSEStock } from '../types/market';
+import { quoteStore } from './quoteStore';
+import { priceHistory, toDateKey } from './priceHistory';
+import { averageVolume } from './indicators';
+
+export type AlertKind = 'price-cross' | 'change-percent' | 'volume-spike';
+export type CrossDirection = 'above' | 'below';
+
+export interface AlertRule {
+  id: string;
+  ticker: string;
+  kind: AlertKind;
+  // KES level for price-cross, percent for change-percent, multiple of average volume for volume-spike
+  threshold: number;
+  direction: CrossDirection;
+  enabled: boolean;
+  createdAt: string;
+  // False once fired; re-armed when the condition stops holding so a single cross fires once
+  armed: boolean;
+  // Change and volume rules fire at most once per trading day
+  lastTriggeredDate: string | null;
+}
+
+export type NewAlertRule = Pick<AlertRule, 'ticker' | 'kind' | 'threshold' | 'direction'>;
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ticker: string;
+  message: string;
+  price: number;
+  triggeredAt: string;
+  read: boolean;
+}
+
+export interface AlertState {
+  rules: AlertRule[];
+  inbox: AlertEvent[];
+}
+
+type Listener = () => void;
+
+const RULES_KEY = 'finadvisor-alert-rules';
+const INBOX_KEY = 'finadvisor-alert-inbox';
+const MAX_INBOX = 100;
+const VOLUME_LOOKBACK_DAYS = 45;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const newId = (prefix: string): string => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error('Error saving alerts:', error);
+  }
+};
+
+export const changePercentOf = (stock: NSEStock): number => {
+  const previousClose = stock.Price - stock.Change;
+  return previousClose !== 0 ? (stock.Change / previousClose) * 100 : 0;
+};
+
+export const describeRule = (rule: Pick<AlertRule, 'ticker' | 'kind' | 'threshold' | 'direction'>): string => {
+  switch (rule.kind) {
+    case 'price-cross':
+      return `${rule.ticker} crosses ${rule.direction} KES ${rule.threshold.toFixed(2)}`;
+    case 'change-percent':
+      return `${rule.ticker} moves ${rule.direction === 'above' ? 'up' : 'down'} ${rule.threshold}% or more on the day`;
+    case 'volume-spike':
+      return `${rule.ticker} volume exceeds ${rule.threshold}x its 20-day average`;
+  }
+};
+
+// Whether the rule's condition currently holds. A cross is the step from not holding to holding.
+export const conditionMet = (rule: AlertRule, stock: NSEStock, averageVolume20: number | null): boolean => {
+  switch (rule.kind) {
+    case 'price-cross':
+      return rule.direction === 'above' ? stock.Price >= rule.threshold : stock.Price <= rule.threshold;
+    case 'change-percent': {
+      const change = changePercentOf(stock);
+      return rule.direction === 'above' ? change >= rule.threshold : change <= -rule.threshold;
+    }
+    case 'volume-spike':
+      return averageVolume20 !== null && averageVolume20 > 0 && stock.Volume > averageVolume20 * rule.threshold;
+  }
+};
+
+const triggerMessage = (rule: AlertRule, stock: NSEStock, averageVolume20: number | null): string => {
+  switch (rule.kind) {
+    case 'price-cross':
+      return `${stock.Ticker} crossed ${rule.direction} KES ${rule.threshold.toFixed(2)} and is trading at KES ${stock.Price.toFixed(2)}.`;
+    case 'change-percent':
+      return `${stock.Ticker} is ${changePercentOf(stock) >= 0 ? 'up' : 'down'} ${Math.abs(changePercentOf(stock)).toFixed(2)}% today at KES ${stock.Price.toFixed(2)}.`;
+    case 'volume-spike':
+      return `${stock.Ticker} volume of ${stock.Volume.toLocaleString()} is ${(stock.Volume / (averageVolume20 || 1)).toFixed(1)}x its 20-day average.`;
+  }
+};
+
+export class AlertStore {
+  private state: AlertState = {
+    rules: readJson<AlertRule[]>(RULES_KEY, []),
+    inbox: readJson<AlertEvent[]>(INBOX_KEY, [])
+  };
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): AlertState => this.state;
+
+  addRule(rule: NewAlertRule): AlertRule {
+    const created: AlertRule = {
+      ...rule,
+      ticker: rule.ticker.toUpperCase(),
+      id: newId('alert'),
+      enabled: true,
+      createdAt: new Date().toISOString(),
+      armed: true,
+      lastTriggeredDate: null
+    };
+    created.armed = this.initialArmed(created);
+    this.setRules([...this.state.rules, created]);
+    return created;
+  }
+
+  removeRule(ruleId: string): void {
+    this.setRules(this.state.rules.filter(rule => rule.id !== ruleId));
+  }
+
+  setEnabled(ruleId: string, enabled: boolean): void {
+    this.setRules(this.state.rules.map(rule => (rule.id === ruleId ? { ...rule, enabled, armed: this.initialArmed(rule) } : rule)));
+  }
+
+  markAllRead(): void {
+    this.setInbox(this.state.inbox.map(event => (event.read ? event : { ...event, read: true })));
+  }
+
+  clearInbox(): void {
+    this.setInbox([]);
+  }
+
+  // Evaluates enabled rules against fresh quotes and returns the alerts that fired
+  evaluate(quotes: NSEStock[], averageVolumes: Record<string, number | null>, now: number = Date.now()): AlertEvent[] {
+    const byTicker = new Map(quotes.map(stock => [stock.Ticker.toUpperCase(), stock]));
+    const today = toDateKey(now);
+    const fired: AlertEvent[] = [];
+
+    const rules = this.state.rules.map(rule => {
+      const stock = byTicker.get(rule.ticker);
+      if (!rule.enabled || !stock) return rule;
+
+      const average = averageVolumes[rule.ticker] ?? null;
+      const met = conditionMet(rule, stock, average);
+      if (!met) return rule.armed ? rule : { ...rule, armed: true };
+
+      const firedToday = rule.kind !== 'price-cross' && rule.lastTriggeredDate === today;
+      if (!rule.armed || firedToday) return rule.armed ? { ...rule, armed: false } : rule;
+
+      fired.push({
+        id: newId('event'),
+        ruleId: rule.id,
+        ticker: rule.ticker,
+        message: triggerMessage(rule, stock, average),
+        price: stock.Price,
+        triggeredAt: new Date(now).toISOString(),
+        read: false
+      });
+      return { ...rule, armed: false, lastTriggeredDate: today };
+    });
+
+    if (rules.some((rule, index) => rule !== this.state.rules[index])) this.setRules(rules);
+    if (fired.length > 0) this.setInbox([...fired, ...this.state.inbox].slice(0, MAX_INBOX));
+    return fired;
+  }
+
+  // A price level the stock is already beyond has not been crossed yet, so the rule waits
+  // for it to come back first. Change and volume rules are daily conditions and start armed.
+  private initialArmed(rule: AlertRule): boolean {
+    const stock = quoteStore.getQuote(rule.ticker);
+    return rule.kind !== 'price-cross' || !stock || !conditionMet(rule, stock, null);
+  }
+
+  private setRules(rules: AlertRule[]): void {
+    this.state = { ...this.state, rules };
+    writeJson(RULES_KEY, rules);
+    this.emit();
+  }
+
+  private setInbox(inbox: AlertEvent[]): void {
+    this.state = { ...this.state, inbox };
+    writeJson(INBOX_KEY, inbox);
+    this.emit();
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const alertStore = new AlertStore();
+
+// 20-day average volume from stored bars before today, so today's spike is not part of its own baseline
+const loadAverageVolumes = async (tickers: string[], now: number): Promise<Record<string, number | null>> => {
+  const today = toDateKey(now);
+  const entries = await Promise.all(
+    tickers.map(async ticker => {
+      try {
+        const bars = (await priceHistory.getDailyBars(ticker, toDateKey(now - VOLUME_LOOKBACK_DAYS * DAY_MS))).filter(bar => bar.date < today);
+        const series = averageVolume(bars, 20);
+        return [ticker, series.length > 0 ? series[series.length - 1] : null] as const;
+      } catch (error) {
+        console.error('Error loading price history:', error);
+        return [ticker, null] as const;
+      }
+    })
+  );
+  return Object.fromEntries(entries);
+};
+
+const notify = (event: AlertEvent): void => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(`NSE alert: ${event.ticker}`, { body: event.message, tag: event.ruleId });
+  } catch (error) {
+    console.error('Error showing notification:', error);
+  }
+};
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  return Notification.permission === 'default' ? Notification.requestPermission() : Notification.permission;
+};
+
+// Evaluates alerts on every quote refresh and keeps the quote store polling while
+// any rule is enabled, so alerts fire even when no price view is open. Returns a stop function.
+export const startAlertMonitor = (): (() => void) => {
+  let stopPolling: (() => void) | null = null;
+
+  const syncPolling = () => {
+    const active = alertStore.getSnapshot().rules.some(rule => rule.enabled);
+    if (active && !stopPolling) {
+      stopPolling = quoteStore.startPolling();
+    } else if (!active && stopPolling) {
+      stopPolling();
+      stopPolling = null;
+    }
+  };
+
+  const handleQuotes = async (quotes: NSEStock[]) => {
+    const now = Date.now();
+    const volumeTickers = [
+      ...new Set(alertStore.getSnapshot().rules.filter(rule => rule.enabled && rule.kind === 'volume-spike').map(rule => rule.ticker))
+    ];
+    const averages = volumeTickers.length > 0 ? await loadAverageVolumes(volumeTickers, now) : {};
+    alertStore.evaluate(quotes, averages, now).forEach(notify);
+  };
+
+  const unsubscribeQuotes = quoteStore.onQuotes(quotes => {
+    handleQuotes(quotes).catch(error => console.error('Error evaluating alerts:', error));
+  });
+  const unsubscribeRules = alertStore.subscribe(syncPolling);
+  syncPolling();
+
+  return () => {
+    unsubscribeQuotes();
+    unsubscribeRules();
+    stopPolling?.();
+    stopPolling = null;
+  };
+};
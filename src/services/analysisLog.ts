@@ -0,0 +1,46 @@
+// Local record of generated analyses with the prompt version, variables and
+// model settings that produced them, so outputs can be compared and reproduced.
+import { LLMSettings, LLMUseCase } from '../config';
+import { RenderedPrompt } from './prompts';
+
+export interface AnalysisRecord {
+  id: string;
+  useCase: LLMUseCase;
+  promptId: string;
+  promptVersion: number;
+  systemPromptVersion: number;
+  variables: RenderedPrompt['variables'];
+  settings: LLMSettings;
+  content: string;
+  generatedAt: string;
+}
+
+const STORAGE_KEY = 'finadvisor-analysis-log';
+const MAX_RECORDS = 50;
+
+const load = (): AnalysisRecord[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as AnalysisRecord[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const recordAnalysis = (record: Omit<AnalysisRecord, 'id'>): AnalysisRecord => {
+  const entry: AnalysisRecord = { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, ...record };
+  const records = [entry, ...load()].slice(0, MAX_RECORDS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch (error) {
+    console.error('Error saving analysis record:', error);
+  }
+  return entry;
+};
+
+export const getAnalysisRecords = (promptId?: string): AnalysisRecord[] =>
+  load().filter(record => !promptId || record.promptId === promptId);
+
+export const clearAnalysisRecords = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
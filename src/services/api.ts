@@ -1,208 +1,552 @@
 // API service for fetching live market data and AI analysis
+import { LLMUseCase, config } from '../config';
+import { BraveSearchResult, NSEStock } from '../types/market';
+import { MarketDataProvider, marketDataProvider } from './marketData';
+import { ChatMessage, LLMClient, llmClient } from './llm';
+import { RequestCache, requestCache } from './cache';
+import {
+  StructuredStockAnalysis,
+  buildReaskMessages,
+  formatStockAnalysis,
+  parseStockAnalysis,
+  stockAnalysisInstructions
+} from './stockAnalysis';
+import { citationInstructions, formatSourcesForPrompt } from './citations';
+import { PromptId, PromptVariables, RenderedPrompt, promptRegistry } from './prompts';
+import { recordAnalysis } from './analysisLog';
+import { NewsItem, normalizeNews } from './news';
+import { formatIndicatorsForPrompt, loadIndicators } from './indicators';
+import { ComparisonPeriod, ComparisonRow, formatComparisonForPrompt } from './comparison';
+import { formatFundamentalsForPrompt, fundamentalsStore } from './fundamentals';
+import { quoteStore } from './quoteStore';
+import {
+  ScoredArticle,
+  articleText,
+  formatHeadlinesForPrompt,
+  labelFor,
+  lexiconScore,
+  matchTickers,
+  parseSentimentScores,
+  sentimentHistory
+} from './sentiment';
+import {
+  Conversation,
+  estimateTokens,
+  fallbackSummary,
+  formatTranscript,
+  planTrim
+} from './conversation';
+import { APIError, Result, ok, err, isAbortError, toAPIError, withRetry } from './errors';
 
-interface BraveSearchResult {
+export { isAbortError };
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onToken?: (token: string) => void;
+  // Bypass cached responses and fetch fresh data
+  force?: boolean;
+}
+
+export interface AnalysisOptions extends StreamOptions {
+  useCase?: LLMUseCase;
+}
+
+export interface SentimentOptions {
+  signal?: AbortSignal;
+  force?: boolean;
+  // Attribute every article to this ticker, e.g. results of a company-specific search
+  ticker?: string;
+}
+
+export interface PromptRef {
+  id: string;
+  version: number;
+}
+
+interface AnalysisResult {
+  content: string;
+  generatedAt: string;
+  prompt: PromptRef;
+}
+
+export interface FinancialProfile {
+  age: number;
+  income: number;
+  riskTolerance: string;
+  goals: string;
+  timeHorizon: number;
+  currentSavings: number;
+}
+
+export interface PortfolioHoldingInput {
+  symbol: string;
+  shares: number;
+  currentPrice: number;
+}
+
+export interface SearchSummary {
   title: string;
-  url: string;
   description: string;
-  published?: string;
+  url: string;
+  publishedAt: number | null;
+  source: string;
+  // Number of other outlets that carried the same story
+  duplicateCount: number;
 }
 
-interface BraveSearchResponse {
-  web?: {
-    results: BraveSearchResult[];
-  };
+export interface MarketOverview {
+  searchResults: SearchSummary[];
+  analysis: string;
+  timestamp: string;
+  prompt: PromptRef;
 }
 
-interface GroqResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
+export interface StockInsight extends MarketOverview {
+  symbol: string;
+  structured: StructuredStockAnalysis;
 }
 
+interface StructuredStockResult {
+  structured: StructuredStockAnalysis;
+  generatedAt: string;
+  prompt: PromptRef;
+}
+
+const MINUTE = 60 * 1000;
+
+const toSummary = (item: NewsItem): SearchSummary => ({
+  title: item.title,
+  description: item.description,
+  url: item.url,
+  publishedAt: item.publishedAt,
+  source: item.source,
+  duplicateCount: item.duplicates.length
+});
+
+const CACHE_TTL = {
+  search: 15 * MINUTE,
+  ai: {
+    stock: 15 * MINUTE,
+    market: 10 * MINUTE,
+    portfolio: 60 * MINUTE,
+    planning: 60 * MINUTE,
+    sentiment: 60 * MINUTE
+  } as Record<LLMUseCase, number>
+};
+
+const RETRY_SOURCES = {
+  search: 'Brave Search',
+  ai: 'AI service'
+};
+
 class APIService {
-  private braveApiKey: string;
-  private braveBaseUrl: string;
-  private groqApiKey: string;
+  private provider: MarketDataProvider;
+  private llm: LLMClient;
+  private cache: RequestCache;
 
-  constructor() {
-    this.braveApiKey = import.meta.env.VITE_BRAVE_API_KEY;
-    this.braveBaseUrl = import.meta.env.VITE_BRAVE_BASE_URL;
-    this.groqApiKey = import.meta.env.VITE_GROQ_API_KEY;
+  constructor(provider: MarketDataProvider, llm: LLMClient, cache: RequestCache) {
+    this.provider = provider;
+    this.llm = llm;
+    this.cache = cache;
   }
 
-  async searchMarketData(query: string): Promise<BraveSearchResult[]> {
+  async searchMarketData(query: string, options: StreamOptions = {}): Promise<Result<BraveSearchResult[]>> {
     try {
-      const response = await fetch(`${this.braveBaseUrl}?q=${encodeURIComponent(query)}&count=10`, {
-        headers: {
-          'X-Subscription-Token': this.braveApiKey,
-          'Accept': 'application/json'
-        }
-      });
+      const results = await this.cache.get(
+        'search',
+        query,
+        CACHE_TTL.search,
+        signal => withRetry(RETRY_SOURCES.search, () => this.provider.search(query), { signal }),
+        options
+      );
+      return ok(results);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error fetching market data:', error);
+      return err(toAPIError(error, RETRY_SOURCES.search));
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`Brave Search API error: ${response.status}`);
-      }
+  // Recent news for a query, deduplicated across outlets and sorted newest first
+  async searchNews(query: string, options: StreamOptions = {}): Promise<Result<NewsItem[]>> {
+    const recencyDays = config.news.recencyDays;
+    try {
+      const results = await this.cache.get(
+        'search',
+        `news:${recencyDays}:${query}`,
+        CACHE_TTL.search,
+        signal => withRetry(RETRY_SOURCES.search, () => this.provider.getNews(query, 20, recencyDays), { signal }),
+        options
+      );
+      return ok(normalizeNews(results, { recencyDays }));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error fetching news:', error);
+      return err(toAPIError(error, RETRY_SOURCES.search));
+    }
+  }
+
+  async getAIAnalysis(prompt: string, options: AnalysisOptions = {}): Promise<Result<string>> {
+    // Ad hoc prompts are not in the registry; they are logged under a "custom" id
+    const rendered: RenderedPrompt = { id: 'custom', version: 0, text: prompt, variables: {} };
+    const result = await this.analyze(rendered, options);
+    return result.ok ? ok(result.value.content) : result;
+  }
+
+  // Sends a follow-up question with the grounding context, summarising old turns if the budget is tight
+  async continueConversation(
+    conversation: Conversation,
+    question: string,
+    useCase: LLMUseCase,
+    options: StreamOptions = {}
+  ): Promise<Result<Conversation>> {
+    const rendered = this.renderPrompt('follow-up-context', {
+      subject: conversation.subject,
+      context: conversation.context
+    });
+    if (!rendered.ok) return rendered;
+    const contextPrompt = rendered.value;
+    const budget = this.llm.contextTokens - this.llm.settingsFor(useCase).maxTokens;
+    const history: ChatMessage[] = [...conversation.messages, { role: 'user', content: question }];
+    const active = history.slice(conversation.summarizedCount);
+
+    let summary = conversation.summary;
+    let summarizedCount = conversation.summarizedCount;
+    const overhead = estimateTokens(contextPrompt.text) + estimateTokens(summary) + estimateTokens(this.llm.systemPrompt);
+    const plan = planTrim(active, overhead, budget);
+    if (plan.overflow.length > 0) {
+      summary = await this.summarizeTurns(summary, plan.overflow, useCase, options.signal);
+      summarizedCount += plan.overflow.length;
+    }
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'user',
+        content: summary ? `${contextPrompt.text}\n\nSummary of our earlier discussion:\n${summary}` : contextPrompt.text
+      },
+      { role: 'assistant', content: 'Understood. What would you like to know?' },
+      ...plan.kept
+    ];
+
+    let streamed = false;
+    try {
+      const reply = await withRetry(RETRY_SOURCES.ai, async () => {
+        let content = '';
+        for await (const token of this.llm.stream(messages, useCase, options.signal)) {
+          content += token;
+          streamed = true;
+          options.onToken?.(token);
+        }
+        if (!content) {
+          throw new APIError('parse', RETRY_SOURCES.ai, 'The AI service returned an empty response');
+        }
+        return content;
+      }, { signal: options.signal, shouldRetry: () => !streamed });
 
-      const data: BraveSearchResponse = await response.json();
-      return data.web?.results || [];
+      return ok({
+        ...conversation,
+        summary,
+        summarizedCount,
+        messages: [...history, { role: 'assistant', content: reply }]
+      });
     } catch (error) {
-      console.error('Error fetching market data:', error);
-      return [];
+      if (isAbortError(error)) throw error;
+      console.error('Error continuing conversation:', error);
+      return err(toAPIError(error, RETRY_SOURCES.ai));
     }
   }
 
-  async getAIAnalysis(prompt: string): Promise<string> {
+  private async summarizeTurns(previousSummary: string, overflow: ChatMessage[], useCase: LLMUseCase, signal?: AbortSignal): Promise<string> {
     try {
-      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.groqApiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'moonshotai/kimi-k2-instruct-0905',
-          messages: [{
-            role: 'system',
-            content: 'You are FinAdvisor AI, a professional investment advisor specializing in Kenyan markets. Provide clear, data-driven investment advice. Always include the disclaimer: "I am not a licensed financial advisor. This is educational information only."'
-          }, {
-            role: 'user',
-            content: prompt
-          }],
-          max_tokens: 1000,
-          temperature: 0.7
-        })
+      const prompt = promptRegistry.render('conversation-summary', {
+        previousSummary: previousSummary || 'None',
+        transcript: formatTranscript(overflow)
       });
+      const summary = await this.llm.complete([{ role: 'user', content: prompt.text }], useCase, { signal });
+      return summary || fallbackSummary(previousSummary, overflow);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error summarising conversation:', error);
+      return fallbackSummary(previousSummary, overflow);
+    }
+  }
+
+  streamAIAnalysis(prompt: string, useCase: LLMUseCase = 'stock', signal?: AbortSignal): AsyncGenerator<string> {
+    return this.llm.stream([{ role: 'user', content: prompt }], useCase, signal);
+  }
+
+  clearCache(): void {
+    this.cache.invalidate();
+  }
+
+  private record(prompt: RenderedPrompt, useCase: LLMUseCase, content: string, generatedAt: string): void {
+    recordAnalysis({
+      useCase,
+      promptId: prompt.id,
+      promptVersion: prompt.version,
+      systemPromptVersion: this.llm.systemPromptVersion,
+      variables: prompt.variables,
+      settings: this.llm.settingsFor(useCase),
+      content,
+      generatedAt
+    });
+  }
+
+  // Template problems (e.g. a missing variable) surface as a Result like any other request failure
+  private renderPrompt<K extends PromptId>(id: K, variables: PromptVariables[K]): Result<RenderedPrompt> {
+    try {
+      return ok(promptRegistry.render(id, variables));
+    } catch (error) {
+      console.error('Error rendering prompt:', error);
+      return err(new APIError('invalid_request', RETRY_SOURCES.ai, error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  // Cached completion with retries. Failures are returned, never cached.
+  private async analyze(prompt: RenderedPrompt, options: AnalysisOptions): Promise<Result<AnalysisResult>> {
+    const useCase = options.useCase ?? 'stock';
+    let streamed = false;
+
+    // The shared fetch can outlive this caller, so tokens stop reaching it once its own signal aborts
+    const attempt = async (signal: AbortSignal): Promise<AnalysisResult> => {
+      let content: string;
+      if (options.onToken) {
+        content = '';
+        for await (const token of this.streamAIAnalysis(prompt.text, useCase, signal)) {
+          content += token;
+          streamed = true;
+          if (!options.signal?.aborted) options.onToken(token);
+        }
+      } else {
+        content = await this.llm.complete([{ role: 'user', content: prompt.text }], useCase, { signal });
+      }
 
-      if (!response.ok) {
-        throw new Error(`GROQ API error: ${response.status}`);
+      if (!content) {
+        throw new APIError('parse', RETRY_SOURCES.ai, 'The AI service returned an empty response');
       }
 
-      const data: GroqResponse = await response.json();
-      return data.choices[0]?.message?.content || 'Unable to generate analysis at this time.';
+      const generatedAt = new Date().toISOString();
+      this.record(prompt, useCase, content, generatedAt);
+      return { content, generatedAt, prompt: { id: prompt.id, version: prompt.version } };
+    };
+
+    // Once tokens have reached the UI a retry would duplicate them, so only retry before the first token
+    const fetcher = (signal: AbortSignal) => withRetry(RETRY_SOURCES.ai, () => attempt(signal), {
+      signal,
+      shouldRetry: () => !streamed
+    });
+
+    try {
+      const result = await this.cache.get('ai', `${useCase}:${prompt.text}`, CACHE_TTL.ai[useCase], fetcher, options);
+      // Cached or de-duplicated responses arrive whole, so hand them to the stream consumer at once
+      if (options.onToken && !streamed) {
+        options.onToken(result.content);
+      }
+      return ok(result);
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error getting AI analysis:', error);
-      return 'Unable to generate analysis at this time. Please try again later.';
+      return err(toAPIError(error, RETRY_SOURCES.ai));
     }
   }
 
-  async getNSEStockData(symbol: string) {
+  async getNSEStockData(symbol: string, options: StreamOptions = {}): Promise<Result<StockInsight>> {
     const searchQuery = `NSE ${symbol} stock price Kenya current market data`;
-    const searchResults = await this.searchMarketData(searchQuery);
+    const search = await this.searchNews(searchQuery, options);
+    if (!search.ok) return search;
     
-    // Extract relevant information from search results
-    const relevantData = searchResults.slice(0, 5).map(result => ({
-      title: result.title,
-      description: result.description,
-      url: result.url
-    }));
+    const relevantData = search.value.slice(0, 5).map(toSummary);
+    const indicators = await loadIndicators(symbol);
 
     // Get AI analysis of the search results
-    const analysisPrompt = `
-    Analyze this NSE stock data for ${symbol} and provide investment insights:
-    
-    Search Results:
-    ${relevantData.map(item => `- ${item.title}: ${item.description}`).join('\n')}
-    
-    Please provide:
-    1. Current price estimate (if available)
-    2. Recent performance analysis
-    3. Investment recommendation (buy/hold/sell)
-    4. Risk assessment
-    5. Key factors affecting the stock
-    
-    Focus on Kenyan market context and economic factors.
-    `;
+    const prompt = this.renderPrompt('stock-analysis', {
+      symbol,
+      sources: formatSourcesForPrompt(relevantData),
+      indicators: formatIndicatorsForPrompt(indicators),
+      fundamentals: formatFundamentalsForPrompt(fundamentalsStore.get(symbol), quoteStore.getQuote(symbol)?.Price ?? null),
+      citationInstructions
+    });
+    if (!prompt.ok) return prompt;
 
-    const analysis = await this.getAIAnalysis(analysisPrompt);
+    const analysis = await this.analyzeStock(prompt.value, options);
+    if (!analysis.ok) return analysis;
 
-    return {
+    return ok({
       symbol,
       searchResults: relevantData,
-      analysis,
-      timestamp: new Date().toISOString()
+      structured: analysis.value.structured,
+      analysis: formatStockAnalysis(analysis.value.structured),
+      timestamp: analysis.value.generatedAt,
+      prompt: analysis.value.prompt
+    });
+  }
+
+  // JSON-mode completion validated against the stock analysis schema, with one re-ask on invalid output
+  private async analyzeStock(prompt: RenderedPrompt, options: StreamOptions): Promise<Result<StructuredStockResult>> {
+    const messages: ChatMessage[] = [{ role: 'user', content: `${prompt.text}\n\n${stockAnalysisInstructions}` }];
+    const complete = (conversation: ChatMessage[], signal: AbortSignal) => withRetry(
+      RETRY_SOURCES.ai,
+      () => this.llm.complete(conversation, 'stock', { signal, json: true }),
+      { signal }
+    );
+    const finish = (structured: StructuredStockAnalysis): StructuredStockResult => {
+      const generatedAt = new Date().toISOString();
+      this.record(prompt, 'stock', JSON.stringify(structured), generatedAt);
+      return { structured, generatedAt, prompt: { id: prompt.id, version: prompt.version } };
+    };
+
+    const fetcher = async (signal: AbortSignal): Promise<StructuredStockResult> => {
+      const reply = await complete(messages, signal);
+      const first = parseStockAnalysis(reply);
+      if (first.valid) {
+        return finish(first.value);
+      }
+
+      const second = parseStockAnalysis(await complete(buildReaskMessages(messages, reply, first.issues), signal));
+      if (!second.valid) {
+        throw new APIError('parse', RETRY_SOURCES.ai, `The AI service returned an invalid analysis: ${second.issues.join('; ')}`);
+      }
+      return finish(second.value);
     };
+
+    try {
+      return ok(await this.cache.get('ai', `stock-json:${prompt.text}`, CACHE_TTL.ai.stock, fetcher, options));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error getting structured stock analysis:', error);
+      return err(toAPIError(error, RETRY_SOURCES.ai));
+    }
   }
 
-  async getKenyanMarketOverview() {
+  async getKenyanMarketOverview(options: StreamOptions = {}): Promise<Result<MarketOverview>> {
     const searchQuery = 'NSE Nairobi Securities Exchange market performance today Kenya stocks';
-    const searchResults = await this.searchMarketData(searchQuery);
-    
-    const relevantData = searchResults.slice(0, 8).map(result => ({
-      title: result.title,
-      description: result.description,
-      url: result.url
-    }));
-
-    const analysisPrompt = `
-    Analyze the current Kenyan stock market conditions based on this data:
+    const search = await this.searchNews(searchQuery, options);
+    if (!search.ok) return search;
     
-    ${relevantData.map(item => `- ${item.title}: ${item.description}`).join('\n')}
-    
-    Please provide:
-    1. Overall market sentiment
-    2. Key market movers
-    3. Economic factors affecting the market
-    4. Investment opportunities
-    5. Risk factors to watch
-    
-    Focus on actionable insights for Kenyan investors.
-    `;
+    const relevantData = search.value.slice(0, 8).map(toSummary);
 
-    const analysis = await this.getAIAnalysis(analysisPrompt);
+    const prompt = this.renderPrompt('market-overview', {
+      sources: formatSourcesForPrompt(relevantData),
+      citationInstructions
+    });
+    if (!prompt.ok) return prompt;
 
-    return {
+    const analysis = await this.analyze(prompt.value, { ...options, useCase: 'market' });
+    if (!analysis.ok) return analysis;
+
+    return ok({
       searchResults: relevantData,
-      analysis,
-      timestamp: new Date().toISOString()
+      analysis: analysis.value.content,
+      timestamp: analysis.value.generatedAt,
+      prompt: analysis.value.prompt
+    });
+  }
+
+  // Scores news items for the listed companies they mention and adds them to the daily aggregates
+  async scoreNewsSentiment(
+    results: BraveSearchResult[],
+    stocks: Pick<NSEStock, 'Ticker' | 'Name'>[],
+    options: SentimentOptions = {}
+  ): Promise<ScoredArticle[]> {
+    const articles = results
+      .map(result => {
+        const tickers = matchTickers(articleText(result), stocks);
+        if (options.ticker && !tickers.includes(options.ticker)) tickers.unshift(options.ticker);
+        return { result, tickers };
+      })
+      .filter(({ tickers }) => tickers.length > 0);
+    if (articles.length === 0) return [];
+
+    const llmScores = config.sentiment.scorer === 'llm'
+      ? await this.llmSentimentScores(articles.map(({ result }) => result), options)
+      : null;
+
+    const scored: ScoredArticle[] = articles.map(({ result, tickers }, index) => {
+      const score = llmScores ? llmScores[index] : lexiconScore(articleText(result));
+      return {
+        title: result.title,
+        url: result.url,
+        description: result.description,
+        published: result.published,
+        tickers,
+        score,
+        label: labelFor(score),
+        scorer: llmScores ? 'llm' : 'lexicon'
+      };
+    });
+
+    sentimentHistory.record(scored);
+    return scored;
+  }
+
+  async getTickerSentiment(stock: Pick<NSEStock, 'Ticker' | 'Name'>, options: SentimentOptions = {}): Promise<Result<ScoredArticle[]>> {
+    const search = await this.searchNews(`${stock.Name} ${stock.Ticker} NSE news`, options);
+    if (!search.ok) return search;
+    return ok(await this.scoreNewsSentiment(search.value, [stock], { ...options, ticker: stock.Ticker }));
+  }
+
+  // Null when the model fails or returns scores that do not line up, so the caller falls back to the lexicon
+  private async llmSentimentScores(results: BraveSearchResult[], options: SentimentOptions): Promise<number[] | null> {
+    const prompt = promptRegistry.render('news-sentiment', { headlines: formatHeadlinesForPrompt(results) });
+
+    const fetcher = async (signal: AbortSignal): Promise<number[]> => {
+      const reply = await withRetry(
+        RETRY_SOURCES.ai,
+        () => this.llm.complete([{ role: 'user', content: prompt.text }], 'sentiment', { signal, json: true }),
+        { signal }
+      );
+      const scores = parseSentimentScores(reply, results.length);
+      if (!scores) {
+        throw new APIError('parse', RETRY_SOURCES.ai, 'The AI service returned invalid sentiment scores');
+      }
+      this.record(prompt, 'sentiment', JSON.stringify({ scores }), new Date().toISOString());
+      return scores;
     };
+
+    try {
+      return await this.cache.get('ai', `sentiment:${prompt.text}`, CACHE_TTL.ai.sentiment, fetcher, options);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error scoring news sentiment, falling back to lexicon:', error);
+      return null;
+    }
   }
 
-  async getFinancialPlanningAdvice(userProfile: any) {
-    const prompt = `
-    Provide personalized financial planning advice for a Kenyan investor with this profile:
-    
-    Age: ${userProfile.age}
-    Income: KES ${userProfile.income}
-    Risk Tolerance: ${userProfile.riskTolerance}
-    Investment Goals: ${userProfile.goals}
-    Time Horizon: ${userProfile.timeHorizon} years
-    Current Savings: KES ${userProfile.currentSavings}
-    
-    Consider Kenyan investment options like:
-    - NSE stocks (Safaricom, Equity Bank, KCB, etc.)
-    - Government securities (Treasury Bills, Bonds)
-    - Money market funds
-    - Real estate investment
-    - Pension schemes (NSSF, private pension)
-    
-    Provide specific allocation recommendations and explain the reasoning.
-    `;
+  async getFinancialPlanningAdvice(userProfile: FinancialProfile, options: StreamOptions = {}): Promise<Result<string>> {
+    const prompt = this.renderPrompt('financial-planning', {
+      age: userProfile.age,
+      income: userProfile.income,
+      riskTolerance: userProfile.riskTolerance,
+      goals: userProfile.goals.trim() || 'Not specified',
+      timeHorizon: userProfile.timeHorizon,
+      currentSavings: userProfile.currentSavings
+    });
+    if (!prompt.ok) return prompt;
 
-    return await this.getAIAnalysis(prompt);
+    const result = await this.analyze(prompt.value, { ...options, useCase: 'planning' });
+    return result.ok ? ok(result.value.content) : result;
   }
 
-  async getPortfolioAnalysis(holdings: any[]) {
-    const holdingsData = holdings.map(h => `${h.symbol}: ${h.shares} shares at KES ${h.currentPrice}`).join(', ');
-    
-    const prompt = `
-    Analyze this Kenyan stock portfolio and provide recommendations:
-    
-    Holdings: ${holdingsData}
-    
-    Please assess:
-    1. Portfolio diversification across sectors
-    2. Risk level and concentration
-    3. Performance relative to NSE index
-    4. Rebalancing recommendations
-    5. Additional stocks to consider
-    
-    Focus on Kenyan market dynamics and provide actionable advice.
-    `;
+  async getStockComparison(rows: ComparisonRow[], period: ComparisonPeriod, options: StreamOptions = {}): Promise<Result<string>> {
+    const prompt = this.renderPrompt('stock-comparison', {
+      period,
+      stocks: formatComparisonForPrompt(rows, period)
+    });
+    if (!prompt.ok) return prompt;
+
+    const result = await this.analyze(prompt.value, { ...options, useCase: 'stock' });
+    return result.ok ? ok(result.value.content) : result;
+  }
+
+  async getPortfolioAnalysis(holdings: PortfolioHoldingInput[], options: StreamOptions = {}): Promise<Result<string>> {
+    const prompt = this.renderPrompt('portfolio-analysis', {
+      holdings: holdings.map(h => `${h.symbol}: ${h.shares} shares at KES ${h.currentPrice}`).join(', ') || 'No holdings'
+    });
+    if (!prompt.ok) return prompt;
 
-    return await this.getAIAnalysis(prompt);
+    const result = await this.analyze(prompt.value, { ...options, useCase: 'portfolio' });
+    return result.ok ? ok(result.value.content) : result;
   }
 }
 
-export const apiService = new APIService();
\ No newline at end of file
+export const apiService = new APIService(marketDataProvider, llmClient, requestCache);
\ No newline at end of file
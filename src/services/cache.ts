@@ -0,0 +1,187 @@
+// Response cache for search and AI calls. Entries are keyed by a hash of the
+// query or prompt, expire after a per-namespace TTL and persist in localStorage
+// so reloads reuse them. Concurrent requests for the same key share one fetch,
+// which is aborted only once every caller waiting on it has aborted.
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheOptions {
+  force?: boolean;
+  signal?: AbortSignal;
+}
+
+// Fetchers receive the shared fetch's signal, not any one caller's
+export type CacheFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const STORAGE_PREFIX = 'finadvisor-cache:';
+
+// FNV-1a, enough to keep keys short and stable across reloads
+export const hashKey = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+};
+
+export class RequestCache {
+  private memory = new Map<string, CacheEntry<unknown>>();
+  private inFlight = new Map<string, InFlight>();
+  private storage: Storage | null;
+
+  constructor(storage: Storage | null = getStorage()) {
+    this.storage = storage;
+    this.pruneExpired();
+  }
+
+  async get<T>(namespace: string, key: string, ttlMs: number, fetcher: CacheFetcher<T>, options: CacheOptions = {}): Promise<T> {
+    const cacheKey = `${namespace}:${hashKey(key)}`;
+
+    if (!options.force) {
+      const entry = this.read<T>(cacheKey);
+      if (entry) return entry.value;
+
+      const pending = this.inFlight.get(cacheKey);
+      if (pending) return this.join(cacheKey, pending, options.signal) as Promise<T>;
+    }
+
+    const controller = new AbortController();
+    const flight: InFlight = { controller, waiters: 0, promise: Promise.resolve() };
+    flight.promise = fetcher(controller.signal)
+      .then(value => {
+        this.write(cacheKey, { value, storedAt: Date.now(), expiresAt: Date.now() + ttlMs });
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(cacheKey) === flight) {
+          this.inFlight.delete(cacheKey);
+        }
+      });
+
+    this.inFlight.set(cacheKey, flight);
+    return this.join(cacheKey, flight, options.signal) as Promise<T>;
+  }
+
+  // Races the shared fetch against the caller's own signal. A caller without a signal keeps the fetch alive.
+  private join(cacheKey: string, flight: InFlight, signal?: AbortSignal): Promise<unknown> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Aborted', 'AbortError'));
+    }
+    flight.waiters += 1;
+    if (!signal) return flight.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        flight.waiters -= 1;
+        if (flight.waiters === 0) {
+          flight.controller.abort();
+          if (this.inFlight.get(cacheKey) === flight) {
+            this.inFlight.delete(cacheKey);
+          }
+        }
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      flight.promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  invalidate(namespace?: string): void {
+    const matches = (cacheKey: string) => !namespace || cacheKey.startsWith(`${namespace}:`);
+
+    Array.from(this.memory.keys()).filter(matches).forEach(cacheKey => this.memory.delete(cacheKey));
+    this.storageKeys().filter(matches).forEach(cacheKey => this.storage?.removeItem(STORAGE_PREFIX + cacheKey));
+  }
+
+  private read<T>(cacheKey: string): CacheEntry<T> | null {
+    let entry = this.memory.get(cacheKey) as CacheEntry<T> | undefined;
+
+    if (!entry && this.storage) {
+      const raw = this.storage.getItem(STORAGE_PREFIX + cacheKey);
+      if (raw) {
+        try {
+          entry = JSON.parse(raw) as CacheEntry<T>;
+          this.memory.set(cacheKey, entry);
+        } catch {
+          this.storage.removeItem(STORAGE_PREFIX + cacheKey);
+        }
+      }
+    }
+
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.memory.delete(cacheKey);
+      this.storage?.removeItem(STORAGE_PREFIX + cacheKey);
+      return null;
+    }
+    return entry;
+  }
+
+  private write<T>(cacheKey: string, entry: CacheEntry<T>): void {
+    this.memory.set(cacheKey, entry);
+    try {
+      this.storage?.setItem(STORAGE_PREFIX + cacheKey, JSON.stringify(entry));
+    } catch (error) {
+      // Quota exceeded: keep the in-memory copy and drop stale persisted entries
+      console.error('Error persisting cache entry:', error);
+      this.pruneExpired();
+    }
+  }
+
+  private storageKeys(): string[] {
+    if (!this.storage) return [];
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(STORAGE_PREFIX)) {
+        keys.push(key.slice(STORAGE_PREFIX.length));
+      }
+    }
+    return keys;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    this.storageKeys().forEach(cacheKey => {
+      const raw = this.storage?.getItem(STORAGE_PREFIX + cacheKey);
+      try {
+        const entry = raw ? (JSON.parse(raw) as CacheEntry<unknown>) : null;
+        if (!entry || entry.expiresAt <= now) {
+          this.storage?.removeItem(STORAGE_PREFIX + cacheKey);
+        }
+      } catch {
+        this.storage?.removeItem(STORAGE_PREFIX + cacheKey);
+      }
+    });
+  }
+}
+
+export const requestCache = new RequestCache();
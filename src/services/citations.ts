@@ -0,0 +1,60 @@
+// Helpers for [n] citations in AI analysis that refer back to numbered search results
+
+export type CitationSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; index: number };
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Figures worth sourcing: percentages, currency amounts and numbers with magnitudes
+const NUMERIC_CLAIM_PATTERN = /(\d[\d,]*(\.\d+)?\s?(%|percent|bn|billion|million|m\b|k\b))|((KES|KSh|Ksh|USD|US\$|\$)\s?\d[\d,]*(\.\d+)?)|(\b\d{1,3}(,\d{3})+(\.\d+)?\b)|(\b\d+\.\d+\b)/i;
+
+// Renders sources as a numbered list the LLM can cite
+// Dated sources carry their publish date so the model can weigh recency
+export const formatSourcesForPrompt = (sources: Array<{ title: string; description: string; publishedAt?: number | null }>): string =>
+  sources.length === 0
+    ? 'No recent sources were found.'
+    : sources.map((source, index) => {
+      const date = source.publishedAt ? ` (${new Date(source.publishedAt).toISOString().slice(0, 10)})` : '';
+      return `[${index + 1}]${date} ${source.title}: ${source.description}`;
+    }).join('\n');
+
+export const citationInstructions = 'Cite the numbered sources inline using [n] (for example [2] or [1, 3]) for every factual or numeric claim. Only cite sources from the list above.';
+
+export const parseCitations = (text: string): CitationSegment[] => {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, start) });
+    }
+    match[1].split(',').forEach(value => {
+      segments.push({ type: 'citation', index: parseInt(value.trim(), 10) });
+    });
+    lastIndex = start + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return segments;
+};
+
+export const hasCitation = (text: string): boolean => new RegExp(CITATION_PATTERN.source).test(text);
+
+// True when a paragraph states figures but cites nothing. Leading list markers ("1.") are ignored.
+export const hasUncitedNumericClaim = (paragraph: string): boolean => {
+  if (hasCitation(paragraph)) return false;
+  const body = paragraph.replace(/^\s*(\d+[.)]|[-*#]+)\s*/gm, '');
+  return NUMERIC_CLAIM_PATTERN.test(body);
+};
+
+export const citedIndices = (text: string): number[] => {
+  const indices = new Set<number>();
+  parseCitations(text).forEach(segment => {
+    if (segment.type === 'citation') indices.add(segment.index);
+  });
+  return Array.from(indices).sort((a, b) => a - b);
+};
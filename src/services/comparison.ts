@@ -0,0 +1,100 @@
+// Side-by-side comparison of a few NSE stocks: live quote figures, stored-history
+// performance rebased to 100, indicator snapshots and valuation, plus a prompt-ready summary.
+import { CompanyFundamentals, DailyBar, NSEStock } from '../types/market';
+import { sectorOf } from '../data/nseSectors';
+import { priceHistory, toDateKey } from './priceHistory';
+import { IndicatorSnapshot, computeIndicators } from './indicators';
+import { Valuation, formatMarketCap, fundamentalsStore, valuationOf } from './fundamentals';
+
+export type ComparisonPeriod = '1W' | '1M' | '6M' | '1Y';
+
+export const COMPARISON_PERIOD_DAYS: Record<ComparisonPeriod, number> = { '1W': 7, '1M': 30, '6M': 182, '1Y': 365 };
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+export interface PerformancePoint {
+  date: string;
+  value: number;
+}
+
+export interface ComparisonRow {
+  stock: NSEStock;
+  sector: string;
+  changePercent: number;
+  turnover: number;
+  // Close rebased to 100 at the first bar of the period
+  performance: PerformancePoint[];
+  periodReturn: number | null;
+  indicators: IndicatorSnapshot | null;
+  fundamentals: CompanyFundamentals | undefined;
+  valuation: Valuation;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Indicators always use a full year so the 52-week range and 50-day average are comparable across periods
+const INDICATOR_DAYS = 366;
+
+export const normalizePerformance = (bars: DailyBar[]): PerformancePoint[] => {
+  const base = bars.find(bar => bar.close > 0)?.close;
+  if (!base) return [];
+  return bars.map(bar => ({ date: bar.date, value: (bar.close / base) * 100 }));
+};
+
+export const buildComparisonRow = (
+  stock: NSEStock,
+  yearBars: DailyBar[],
+  period: ComparisonPeriod,
+  fundamentals: CompanyFundamentals | undefined,
+  now: number = Date.now()
+): ComparisonRow => {
+  const from = toDateKey(now - COMPARISON_PERIOD_DAYS[period] * DAY_MS);
+  const performance = normalizePerformance(yearBars.filter(bar => bar.date >= from));
+  const previousClose = stock.Price - stock.Change;
+
+  return {
+    stock,
+    sector: fundamentals?.sector ?? sectorOf(stock.Ticker),
+    changePercent: previousClose !== 0 ? (stock.Change / previousClose) * 100 : 0,
+    turnover: stock.Price * stock.Volume,
+    performance,
+    periodReturn: performance.length > 1 ? performance[performance.length - 1].value - 100 : null,
+    indicators: computeIndicators(yearBars),
+    fundamentals,
+    valuation: valuationOf(stock.Price, fundamentals)
+  };
+};
+
+export const loadComparison = async (stocks: NSEStock[], period: ComparisonPeriod, now: number = Date.now()): Promise<ComparisonRow[]> =>
+  Promise.all(
+    stocks.map(async stock => {
+      try {
+        const bars = await priceHistory.getDailyBars(stock.Ticker, toDateKey(now - INDICATOR_DAYS * DAY_MS));
+        return buildComparisonRow(stock, bars, period, fundamentalsStore.get(stock.Ticker), now);
+      } catch (error) {
+        console.error('Error loading price history:', error);
+        return buildComparisonRow(stock, [], period, fundamentalsStore.get(stock.Ticker), now);
+      }
+    })
+  );
+
+const fixed = (value: number | null | undefined, digits = 2): string =>
+  value === null || value === undefined ? 'n/a' : value.toFixed(digits);
+
+// One block per stock with the same figures the comparison table shows
+export const formatComparisonForPrompt = (rows: ComparisonRow[], period: ComparisonPeriod): string =>
+  rows
+    .map(row => {
+      const ind = row.indicators;
+      return [
+        `${row.stock.Ticker} (${row.stock.Name}, ${row.sector}):`,
+        `- Price: KES ${fixed(row.stock.Price)}, today ${row.changePercent >= 0 ? '+' : ''}${fixed(row.changePercent)}%`,
+        `- Volume: ${row.stock.Volume.toLocaleString()}, turnover KES ${Math.round(row.turnover).toLocaleString()}, 20-day average volume ${ind?.averageVolume20 ? Math.round(ind.averageVolume20).toLocaleString() : 'n/a'}`,
+        `- ${period} return: ${row.periodReturn === null ? 'n/a (not enough stored history)' : `${row.periodReturn >= 0 ? '+' : ''}${fixed(row.periodReturn)}%`}`,
+        `- SMA 20: ${fixed(ind?.sma20)}, SMA 50: ${fixed(ind?.sma50)}, RSI 14: ${fixed(ind?.rsi14, 1)}`,
+        `- 52-week range: ${ind ? `${fixed(ind.low52w)} to ${fixed(ind.high52w)}` : 'n/a'}`,
+        row.fundamentals
+          ? `- Market cap ${formatMarketCap(row.valuation.marketCap)}, P/E ${fixed(row.valuation.pe)}, P/B ${fixed(row.valuation.pb)}, dividend yield ${row.valuation.dividendYield === null ? 'n/a' : `${fixed(row.valuation.dividendYield)}%`} (${row.valuation.earningsBasis ?? `${row.fundamentals.period}, not annualisable`} results)`
+          : '- Fundamentals: n/a'
+      ].join('\n');
+    })
+    .join('\n\n');
@@ -0,0 +1,61 @@
+// Multi-turn follow-up conversations about an analysis. The grounding context
+// is always sent; when the transcript nears the token budget the oldest turns
+// are folded into a running summary.
+import { ChatMessage } from './llm';
+
+export interface Conversation {
+  subject: string;
+  context: string;
+  // Summary of the first `summarizedCount` messages, which no longer fit in the prompt
+  summary: string;
+  summarizedCount: number;
+  // Full transcript for display
+  messages: ChatMessage[];
+}
+
+// Turns always kept verbatim, however tight the budget
+export const MIN_RECENT_MESSAGES = 4;
+
+export const createConversation = (subject: string, context: string): Conversation => ({
+  subject,
+  context,
+  summary: '',
+  summarizedCount: 0,
+  messages: []
+});
+
+// Rough estimate (about four characters per token) that avoids shipping a tokenizer
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const estimateMessagesTokens = (messages: ChatMessage[]): number =>
+  messages.reduce((total, message) => total + estimateTokens(message.content) + 4, 0);
+
+export interface TrimPlan {
+  // Oldest messages that should be folded into the summary
+  overflow: ChatMessage[];
+  kept: ChatMessage[];
+}
+
+// Splits the transcript so that the kept turns plus the fixed overhead fit in the budget
+export const planTrim = (messages: ChatMessage[], overheadTokens: number, budgetTokens: number): TrimPlan => {
+  let start = 0;
+  while (
+    start < messages.length - MIN_RECENT_MESSAGES &&
+    overheadTokens + estimateMessagesTokens(messages.slice(start)) > budgetTokens
+  ) {
+    // Drop whole question/answer pairs so the kept transcript starts with a user turn
+    start += messages[start + 1]?.role === 'assistant' ? 2 : 1;
+  }
+  return { overflow: messages.slice(0, start), kept: messages.slice(start) };
+};
+
+export const formatTranscript = (messages: ChatMessage[]): string =>
+  messages.map(message => `${message.role === 'user' ? 'Investor' : 'Advisor'}: ${message.content}`).join('\n\n');
+
+// Used when the summary request fails: keep the opening of each dropped turn
+export const fallbackSummary = (previousSummary: string, overflow: ChatMessage[]): string => {
+  const excerpts = overflow.map(message =>
+    `${message.role === 'user' ? 'Investor asked' : 'Advisor said'}: ${message.content.slice(0, 160)}${message.content.length > 160 ? '...' : ''}`
+  );
+  return [previousSummary, ...excerpts].filter(Boolean).join('\n');
+};
@@ -0,0 +1,284 @@
+// Dividends, bonus issues, splits and rights issues: a calendar of dated events,
+// adjustment of holdings for entitlements since purchase, and projected dividend
+// income. Seed actions ship with the app; user-entered actions persist in localStorage.
+import { CompanyFundamentals, CorporateAction, CorporateActionType } from '../types/market';
+import { nseCorporateActionsSeed } from '../data/nseCorporateActions';
+
+export interface HoldingPosition {
+  symbol: string;
+  shares: number;
+  avgPrice: number;
+  acquiredOn: string; // YYYY-MM-DD
+}
+
+export interface AppliedAction {
+  action: CorporateAction;
+  sharesBefore: number;
+  sharesAfter: number;
+  cashReceived: number; // gross dividend entitlement
+}
+
+export interface AdjustedHolding extends HoldingPosition {
+  originalShares: number;
+  originalAvgPrice: number;
+  applied: AppliedAction[];
+  dividendsReceived: number;
+  // Entitled at book closure but not yet paid
+  dividendsPending: number;
+}
+
+export interface CalendarEvent {
+  date: string;
+  kind: 'book-closure' | 'payment';
+  action: CorporateAction;
+}
+
+export interface ProjectedDividend {
+  symbol: string;
+  shares: number;
+  amountPerShare: number;
+  gross: number;
+  net: number;
+  paymentDate: string | null;
+  // Announced dividends are on the calendar; estimates use the last reported annual DPS
+  source: 'announced' | 'estimated';
+  action?: CorporateAction;
+}
+
+export interface AdjustmentOptions {
+  // Rights only change a holding when the entitlement is taken up and paid for
+  takeUpRights?: boolean;
+}
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'finadvisor-corporate-actions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+// Kenyan withholding tax on dividends for resident individuals
+export const DIVIDEND_WITHHOLDING_RATE = 0.05;
+
+export const actionTypeLabels: Record<CorporateActionType, string> = {
+  dividend: 'Dividend',
+  bonus: 'Bonus issue',
+  split: 'Share split',
+  rights: 'Rights issue'
+};
+
+export const describeAction = (action: CorporateAction): string => {
+  switch (action.type) {
+    case 'dividend':
+      return `${action.ticker} ${action.dividendKind} dividend of KES ${action.amountPerShare.toFixed(2)} per share`;
+    case 'bonus':
+      return `${action.ticker} bonus issue of ${action.newShares} for every ${action.heldShares} held`;
+    case 'split':
+      return `${action.ticker} ${action.newShares}-for-${action.heldShares} share split`;
+    case 'rights':
+      return `${action.ticker} rights issue of ${action.newShares} for every ${action.heldShares} held at KES ${action.subscriptionPrice.toFixed(2)}`;
+  }
+};
+
+// Book closure and payment dates as separate calendar entries, oldest first
+export const calendarEvents = (actions: CorporateAction[], from: string, to: string): CalendarEvent[] =>
+  actions
+    .flatMap(action => {
+      const events: CalendarEvent[] = [{ date: action.bookClosure, kind: 'book-closure', action }];
+      if (action.paymentDate) events.push({ date: action.paymentDate, kind: 'payment', action });
+      return events;
+    })
+    .filter(event => event.date >= from && event.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.action.ticker.localeCompare(b.action.ticker));
+
+// Replays every action whose book closure falls after purchase and on or before asOf.
+// Fractional bonus and rights entitlements are dropped, as on the NSE.
+export const applyCorporateActions = (
+  holding: HoldingPosition,
+  actions: CorporateAction[],
+  asOf: string,
+  options: AdjustmentOptions = {}
+): AdjustedHolding => {
+  let shares = holding.shares;
+  let cost = holding.shares * holding.avgPrice;
+  let dividendsReceived = 0;
+  let dividendsPending = 0;
+  const applied: AppliedAction[] = [];
+
+  actions
+    .filter(action => action.ticker === holding.symbol && action.bookClosure > holding.acquiredOn && action.bookClosure <= asOf)
+    .sort((a, b) => a.bookClosure.localeCompare(b.bookClosure))
+    .forEach(action => {
+      const sharesBefore = shares;
+      let cashReceived = 0;
+      switch (action.type) {
+        case 'dividend':
+          cashReceived = shares * action.amountPerShare;
+          if (action.paymentDate <= asOf) {
+            dividendsReceived += cashReceived;
+          } else {
+            dividendsPending += cashReceived;
+          }
+          break;
+        case 'split':
+          shares = (shares * action.newShares) / action.heldShares;
+          break;
+        case 'bonus':
+          shares += Math.floor((shares * action.newShares) / action.heldShares);
+          break;
+        case 'rights': {
+          if (!options.takeUpRights) return;
+          const taken = Math.floor((shares * action.newShares) / action.heldShares);
+          shares += taken;
+          cost += taken * action.subscriptionPrice;
+          break;
+        }
+      }
+      applied.push({ action, sharesBefore, sharesAfter: shares, cashReceived });
+    });
+
+  return {
+    ...holding,
+    shares,
+    avgPrice: shares > 0 ? cost / shares : holding.avgPrice,
+    originalShares: holding.shares,
+    originalAvgPrice: holding.avgPrice,
+    applied,
+    dividendsReceived,
+    dividendsPending
+  };
+};
+
+// Announced dividends with book closure after `from`, topped up to the last reported
+// annual DPS with an estimate when fewer payments than that have been announced.
+// Bonus issues and splits in the window are applied in date order, so a dividend
+// closing after one is paid on the enlarged holding; rights are not assumed taken up.
+// The reported DPS is on the share basis at `from`, so announced amounts are converted
+// back to that basis before the remainder is worked out, and the remainder is only
+// estimated when the window spans a full year of payments.
+export const projectDividendIncome = (
+  holdings: Array<Pick<HoldingPosition, 'symbol' | 'shares'>>,
+  actions: CorporateAction[],
+  fundamentals: Record<string, CompanyFundamentals>,
+  from: string,
+  to: string
+): ProjectedDividend[] => {
+  const net = (gross: number) => gross * (1 - DIVIDEND_WITHHOLDING_RATE);
+  const coversFullYear = Date.parse(to) - Date.parse(from) >= DAYS_PER_YEAR * DAY_MS;
+
+  return holdings.flatMap(holding => {
+    let shares = holding.shares;
+    // Shares per share held at `from`, before fractional entitlements are dropped
+    let factor = 1;
+    let announcedPerShare = 0; // on the basis at `from`
+    const projected: ProjectedDividend[] = [];
+
+    actions
+      .filter(action => action.ticker === holding.symbol && action.bookClosure > from && action.bookClosure <= to)
+      .sort((a, b) => a.bookClosure.localeCompare(b.bookClosure))
+      .forEach(action => {
+        switch (action.type) {
+          case 'dividend':
+            announcedPerShare += action.amountPerShare * factor;
+            projected.push({
+              symbol: holding.symbol,
+              shares,
+              amountPerShare: action.amountPerShare,
+              gross: shares * action.amountPerShare,
+              net: net(shares * action.amountPerShare),
+              paymentDate: action.paymentDate,
+              source: 'announced',
+              action
+            });
+            break;
+          case 'split':
+            shares = (shares * action.newShares) / action.heldShares;
+            factor = (factor * action.newShares) / action.heldShares;
+            break;
+          case 'bonus':
+            shares += Math.floor((shares * action.newShares) / action.heldShares);
+            factor += (factor * action.newShares) / action.heldShares;
+            break;
+          case 'rights':
+            break;
+        }
+      });
+
+    // The estimate has no date, so it is paid on the holding at the end of the window,
+    // with the remaining DPS restated per share on that enlarged basis
+    const remaining = (fundamentals[holding.symbol]?.dps ?? 0) - announcedPerShare;
+    if (coversFullYear && remaining > 0.005) {
+      const amountPerShare = remaining / factor;
+      projected.push({
+        symbol: holding.symbol,
+        shares,
+        amountPerShare,
+        gross: shares * amountPerShare,
+        net: net(shares * amountPerShare),
+        paymentDate: null,
+        source: 'estimated'
+      });
+    }
+    return projected;
+  });
+};
+
+const loadCustom = (): CorporateAction[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as CorporateAction[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Distributive so each action type keeps its own fields
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+export type NewCorporateAction = DistributiveOmit<CorporateAction, 'id'>;
+
+export class CorporateActionStore {
+  private custom = loadCustom();
+  private actions: CorporateAction[] = [...nseCorporateActionsSeed, ...this.custom];
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): CorporateAction[] => this.actions;
+
+  isCustom(actionId: string): boolean {
+    return this.custom.some(action => action.id === actionId);
+  }
+
+  add(action: NewCorporateAction): CorporateAction {
+    const created = {
+      ...action,
+      ticker: action.ticker.toUpperCase(),
+      id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+    } as CorporateAction;
+    this.commit([...this.custom, created]);
+    return created;
+  }
+
+  // Only user-entered actions can be removed; seed actions are part of the dataset
+  remove(actionId: string): void {
+    this.commit(this.custom.filter(action => action.id !== actionId));
+  }
+
+  private commit(custom: CorporateAction[]): void {
+    this.custom = custom;
+    this.actions = [...nseCorporateActionsSeed, ...custom];
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+    } catch (error) {
+      console.error('Error saving corporate actions:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const corporateActionStore = new CorporateActionStore();
@@ -0,0 +1,136 @@
+// Typed errors and Result values for calls to external services, plus an
+// exponential backoff helper for the failures worth retrying.
+
+export type APIErrorKind = 'network' | 'auth' | 'rate_limit' | 'upstream' | 'invalid_request' | 'parse';
+
+export class APIError extends Error {
+  readonly kind: APIErrorKind;
+  readonly source: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: APIErrorKind, source: string, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'APIError';
+    this.kind = kind;
+    this.source = source;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'rate_limit' || this.kind === 'upstream';
+  }
+}
+
+export type Result<T> = { ok: true; value: T } | { ok: false; error: APIError };
+
+export const ok = <T>(value: T): Result<T> => ({ ok: true, value });
+
+export const err = <T>(error: APIError): Result<T> => ({ ok: false, error });
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const errorFromResponse = (response: Response, source: string): APIError => {
+  const { status } = response;
+  if (status === 401 || status === 403) {
+    return new APIError('auth', source, `${source} rejected the credentials (HTTP ${status})`, status);
+  }
+  if (status === 429) {
+    return new APIError('rate_limit', source, `${source} rate limit exceeded`, status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  if (status >= 500) {
+    return new APIError('upstream', source, `${source} is unavailable (HTTP ${status})`, status);
+  }
+  return new APIError('invalid_request', source, `${source} rejected the request (HTTP ${status})`, status);
+};
+
+// Normalises anything thrown by fetch or JSON parsing. Abort errors are left to the caller.
+export const toAPIError = (error: unknown, source: string): APIError => {
+  if (error instanceof APIError) return error;
+  if (error instanceof SyntaxError) {
+    return new APIError('parse', source, `${source} returned a malformed response`);
+  }
+  if (error instanceof TypeError) {
+    return new APIError('network', source, `Could not reach ${source}`);
+  }
+  return new APIError('upstream', source, error instanceof Error ? error.message : String(error));
+};
+
+// fetch wrapper that turns transport failures and non-2xx responses into APIErrors
+export const fetchOrThrow = async (source: string, input: string, init?: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(input, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw toAPIError(error, source);
+  }
+
+  if (!response.ok) {
+    throw errorFromResponse(response, source);
+  }
+  return response;
+};
+
+export const readJson = async <T>(response: Response, source: string): Promise<T> => {
+  try {
+    return await response.json();
+  } catch {
+    throw new APIError('parse', source, `${source} returned a malformed response`, response.status);
+  }
+};
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: APIError, attempt: number) => boolean;
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const withRetry = async <T>(source: string, task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 500, maxDelayMs = 8000, signal, shouldRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+
+      const apiError = toAPIError(error, source);
+      const canRetry = apiError.retryable && attempt < retries && (shouldRetry?.(apiError, attempt) ?? true);
+      if (!canRetry) throw apiError;
+
+      // Full jitter, but never sooner than the server asked for
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * Math.random();
+      await sleep(Math.max(backoff, apiError.retryAfterMs ?? 0), signal);
+    }
+  }
+};
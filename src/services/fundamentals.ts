@@ -0,0 +1,220 @@
+// Company fundamentals and the valuation metrics derived from them at the live
+// price. Seed figures ship with the app; imported CSV or JSON rows are kept in
+// localStorage and take precedence for their tickers.
+import { CompanyFundamentals } from '../types/market';
+import { nseFundamentalsSeed } from '../data/nseFundamentals';
+import { sectorOf, toNSESector } from '../data/nseSectors';
+
+export interface Valuation {
+  marketCap: number | null;
+  pe: number | null;
+  pb: number | null;
+  dividendYield: number | null; // percent
+  // Period behind P/E and dividend yield, e.g. "FY2024" or "H1 2025 annualised"; null when it cannot be read
+  earningsBasis: string | null;
+}
+
+export interface FundamentalsImportResult {
+  imported: number;
+  errors: string[];
+}
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'finadvisor-fundamentals';
+const NUMERIC_FIELDS = ['sharesOutstanding', 'eps', 'dps', 'bookValuePerShare'] as const;
+
+const emptyValuation: Valuation = { marketCap: null, pe: null, pb: null, dividendYield: null, earningsBasis: null };
+
+// Months covered by a reported period such as FY2024, TTM, H1 2025, Q3 2025 or 9M 2025; null if unrecognised.
+// A bare year is what imports fall back to without a period column, and is read as a full year.
+export const periodMonths = (period: string): number | null => {
+  const label = period.trim().toUpperCase();
+  if (/^(FY|TTM|LTM)/.test(label) || /^\d{4}$/.test(label)) return 12;
+  if (/^H[12]\b/.test(label)) return 6;
+  if (/^Q[1-4]\b/.test(label)) return 3;
+  const months = label.match(/^(\d{1,2})M\b/);
+  return months && Number(months[1]) >= 1 && Number(months[1]) <= 12 ? Number(months[1]) : null;
+};
+
+// P/E and yield need a full year of earnings and dividends, so interim figures are scaled up
+// to twelve months and unrecognised periods give no multiple. Loss-making companies and
+// negative book values have no meaningful multiple either.
+export const valuationOf = (price: number, fundamentals: CompanyFundamentals | undefined): Valuation => {
+  if (!fundamentals || price <= 0) return emptyValuation;
+  const { sharesOutstanding, eps, dps, bookValuePerShare, period } = fundamentals;
+  const months = periodMonths(period);
+  const annualise = (value: number | null) => (value === null || months === null ? null : (value * 12) / months);
+  const annualEps = annualise(eps);
+  const annualDps = annualise(dps);
+  return {
+    marketCap: sharesOutstanding > 0 ? price * sharesOutstanding : null,
+    pe: annualEps !== null && annualEps > 0 ? price / annualEps : null,
+    pb: bookValuePerShare !== null && bookValuePerShare > 0 ? price / bookValuePerShare : null,
+    dividendYield: annualDps !== null ? (annualDps / price) * 100 : null,
+    earningsBasis: months === null ? null : months === 12 ? period : `${period} annualised`
+  };
+};
+
+// Market caps on the NSE run from millions to trillions of shillings
+export const formatMarketCap = (value: number | null): string => {
+  if (value === null) return 'N/A';
+  if (value >= 1e12) return `KES ${(value / 1e12).toFixed(2)}T`;
+  if (value >= 1e9) return `KES ${(value / 1e9).toFixed(1)}B`;
+  if (value >= 1e6) return `KES ${(value / 1e6).toFixed(1)}M`;
+  return `KES ${Math.round(value).toLocaleString()}`;
+};
+
+// Valuation lines are included only when a live price is known
+export const formatFundamentalsForPrompt = (fundamentals: CompanyFundamentals | undefined, price: number | null): string => {
+  if (!fundamentals) return 'No fundamentals are available for this company.';
+  const fixed = (value: number | null, suffix = '') => (value === null ? 'n/a' : `${value.toFixed(2)}${suffix}`);
+  const lines = [
+    `Reported period: ${fundamentals.period} (ended ${fundamentals.periodEnd}), sector ${fundamentals.sector}`,
+    `- Shares outstanding: ${fundamentals.sharesOutstanding.toLocaleString()}`,
+    `- EPS: KES ${fixed(fundamentals.eps)}, DPS: KES ${fixed(fundamentals.dps)}, book value per share: KES ${fixed(fundamentals.bookValuePerShare)}`
+  ];
+  if (price !== null) {
+    const valuation = valuationOf(price, fundamentals);
+    const basis = valuation.earningsBasis ? `on ${valuation.earningsBasis} earnings and dividends` : `not computed, ${fundamentals.period} is not a recognised reporting period`;
+    lines.push(`- At KES ${price.toFixed(2)}: market cap ${formatMarketCap(valuation.marketCap)}, P/B ${fixed(valuation.pb)}`);
+    lines.push(`- P/E ${fixed(valuation.pe)}, dividend yield ${fixed(valuation.dividendYield, '%')} (${basis})`);
+  }
+  return lines.join('\n');
+};
+
+const parseNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : NaN;
+};
+
+// Validates one imported record; returns an error message instead of throwing so one bad row doesn't sink the file
+const toFundamentals = (record: Record<string, unknown>): CompanyFundamentals | string => {
+  const ticker = String(record.ticker ?? '').trim().toUpperCase();
+  if (!ticker) return 'missing ticker';
+
+  const numbers: Partial<Record<typeof NUMERIC_FIELDS[number], number | null>> = {};
+  for (const field of NUMERIC_FIELDS) {
+    const value = parseNumber(record[field]);
+    if (Number.isNaN(value)) return `${ticker}: ${field} is not a number`;
+    numbers[field] = value;
+  }
+  if (!numbers.sharesOutstanding || numbers.sharesOutstanding <= 0) return `${ticker}: sharesOutstanding must be positive`;
+
+  const periodEnd = String(record.periodEnd ?? '').trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(periodEnd)) return `${ticker}: periodEnd must be YYYY-MM-DD`;
+
+  // Sectors drive the screener's sector filter, so only the exchange's own names are accepted
+  const rawSector = String(record.sector ?? '').trim();
+  const sector = rawSector ? toNSESector(rawSector) : sectorOf(ticker);
+  if (!sector) return `${ticker}: sector "${rawSector}" is not an NSE sector`;
+
+  return {
+    ticker,
+    sector,
+    sharesOutstanding: numbers.sharesOutstanding,
+    eps: numbers.eps ?? null,
+    dps: numbers.dps ?? null,
+    bookValuePerShare: numbers.bookValuePerShare ?? null,
+    period: String(record.period ?? '').trim() || periodEnd.slice(0, 4),
+    periodEnd
+  };
+};
+
+// Header row names the fields; quoted values may contain commas
+const parseCsv = (text: string): Array<Record<string, string>> => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const splitLine = (line: string) =>
+    (line.match(/("([^"]|"")*"|[^,]*)(,|$)/g) ?? [])
+      .map(cell => cell.replace(/,$/, '').trim().replace(/^"(.*)"$/, '$1').replace(/""/g, '"'))
+      .slice(0, -1);
+  const [header, ...rows] = lines.map(splitLine);
+  if (!header) return [];
+  return rows.map(cells => Object.fromEntries(header.map((name, index) => [name, cells[index] ?? ''])));
+};
+
+export const parseFundamentalsFile = (text: string): { rows: CompanyFundamentals[]; errors: string[] } => {
+  let records: Array<Record<string, unknown>>;
+  try {
+    const trimmed = text.trim();
+    records = trimmed.startsWith('[') || trimmed.startsWith('{')
+      ? [JSON.parse(trimmed)].flat()
+      : parseCsv(trimmed);
+  } catch {
+    return { rows: [], errors: ['The file is neither valid JSON nor CSV'] };
+  }
+
+  const rows: CompanyFundamentals[] = [];
+  const errors: string[] = [];
+  records.forEach((record, index) => {
+    const result = toFundamentals(record);
+    if (typeof result === 'string') {
+      errors.push(`Row ${index + 1}: ${result}`);
+    } else {
+      rows.push(result);
+    }
+  });
+  return { rows, errors };
+};
+
+const loadImported = (): Record<string, CompanyFundamentals> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, CompanyFundamentals>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const seedByTicker: Record<string, CompanyFundamentals> = Object.fromEntries(nseFundamentalsSeed.map(row => [row.ticker, row]));
+
+export class FundamentalsStore {
+  private imported = loadImported();
+  private byTicker: Record<string, CompanyFundamentals> = { ...seedByTicker, ...this.imported };
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): Record<string, CompanyFundamentals> => this.byTicker;
+
+  get(ticker: string): CompanyFundamentals | undefined {
+    return this.byTicker[ticker.toUpperCase()];
+  }
+
+  get importedCount(): number {
+    return Object.keys(this.imported).length;
+  }
+
+  // Imported rows replace any earlier figures for the same ticker
+  importFile(text: string): FundamentalsImportResult {
+    const { rows, errors } = parseFundamentalsFile(text);
+    if (rows.length > 0) {
+      this.commit({ ...this.imported, ...Object.fromEntries(rows.map(row => [row.ticker, row])) });
+    }
+    return { imported: rows.length, errors };
+  }
+
+  // Drops imported figures and falls back to the seed dataset
+  reset(): void {
+    this.commit({});
+  }
+
+  private commit(imported: Record<string, CompanyFundamentals>): void {
+    this.imported = imported;
+    this.byTicker = { ...seedByTicker, ...imported };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(imported));
+    } catch (error) {
+      console.error('Error saving fundamentals:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const fundamentalsStore = new FundamentalsStore();
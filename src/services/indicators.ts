@@ -0,0 +1,187 @@
+// Technical indicators over daily bars. Series functions return one value per
+// input, with null until enough history has accumulated for the period.
+import { DailyBar } from '../types/market';
+import { priceHistory, toDateKey } from './priceHistory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Series = Array<number | null>;
+
+export interface MACDPoint {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerPoint {
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
+export interface IndicatorSnapshot {
+  asOf: string; // date of the latest bar
+  barCount: number;
+  close: number;
+  sma20: number | null;
+  sma50: number | null;
+  ema20: number | null;
+  rsi14: number | null;
+  macd: MACDPoint | null;
+  bollinger: BollingerPoint | null;
+  averageVolume20: number | null;
+  volume: number;
+  high52w: number;
+  low52w: number;
+}
+
+export const sma = (values: number[], period: number): Series => {
+  let sum = 0;
+  return values.map((value, index) => {
+    sum += value;
+    if (index >= period) sum -= values[index - period];
+    return index >= period - 1 ? sum / period : null;
+  });
+};
+
+// Seeded with the SMA of the first period, then smoothed by 2 / (period + 1)
+export const ema = (values: number[], period: number): Series => {
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  return values.map((value, index) => {
+    if (index < period - 1) return null;
+    if (previous === null) {
+      previous = values.slice(0, period).reduce((total, v) => total + v, 0) / period;
+    } else {
+      previous = value * k + previous * (1 - k);
+    }
+    return previous;
+  });
+};
+
+// Wilder's RSI: averages of gains and losses smoothed over the period
+export const rsi = (values: number[], period = 14): Series => {
+  const result: Series = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let averageGain = 0;
+  let averageLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    averageGain += Math.max(change, 0) / period;
+    averageLoss += Math.max(-change, 0) / period;
+  }
+
+  const toRsi = () => (averageLoss === 0 ? 100 : 100 - 100 / (1 + averageGain / averageLoss));
+  result[period] = toRsi();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    averageGain = (averageGain * (period - 1) + Math.max(change, 0)) / period;
+    averageLoss = (averageLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+};
+
+export const macd = (values: number[], fast = 12, slow = 26, signalPeriod = 9): Array<MACDPoint | null> => {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = values.map((_, index) => {
+    const f = fastEma[index];
+    const s = slowEma[index];
+    return f === null || s === null ? null : f - s;
+  });
+
+  const start = line.findIndex(value => value !== null);
+  if (start === -1) return values.map(() => null);
+  const signal = ema(line.slice(start) as number[], signalPeriod);
+
+  return line.map((value, index) => {
+    const signalValue = index >= start ? signal[index - start] : null;
+    if (value === null || signalValue === null) return null;
+    return { macd: value, signal: signalValue, histogram: value - signalValue };
+  });
+};
+
+export const bollinger = (values: number[], period = 20, multiplier = 2): Array<BollingerPoint | null> => {
+  const middle = sma(values, period);
+  return values.map((_, index) => {
+    const mean = middle[index];
+    if (mean === null) return null;
+    const window = values.slice(index - period + 1, index + 1);
+    const deviation = Math.sqrt(window.reduce((total, value) => total + (value - mean) ** 2, 0) / period);
+    return { middle: mean, upper: mean + multiplier * deviation, lower: mean - multiplier * deviation };
+  });
+};
+
+export const averageVolume = (bars: DailyBar[], period = 20): Series => sma(bars.map(bar => bar.volume), period);
+
+// Highest high and lowest low over the trailing year ending at the last bar
+export const fiftyTwoWeekRange = (bars: DailyBar[]): { high: number; low: number } | null => {
+  if (bars.length === 0) return null;
+  const last = bars[bars.length - 1].date;
+  const cutoff = new Date(`${last}T00:00:00Z`);
+  cutoff.setUTCFullYear(cutoff.getUTCFullYear() - 1);
+  const cutoffKey = cutoff.toISOString().slice(0, 10);
+  const year = bars.filter(bar => bar.date > cutoffKey);
+  return {
+    high: Math.max(...year.map(bar => bar.high)),
+    low: Math.min(...year.map(bar => bar.low))
+  };
+};
+
+const last = <T>(series: Array<T | null>): T | null => (series.length > 0 ? series[series.length - 1] : null);
+
+// Latest value of every indicator; bars must be sorted oldest first
+export const computeIndicators = (bars: DailyBar[]): IndicatorSnapshot | null => {
+  if (bars.length === 0) return null;
+  const closes = bars.map(bar => bar.close);
+  const latest = bars[bars.length - 1];
+  const range = fiftyTwoWeekRange(bars) as { high: number; low: number };
+
+  return {
+    asOf: latest.date,
+    barCount: bars.length,
+    close: latest.close,
+    sma20: last(sma(closes, 20)),
+    sma50: last(sma(closes, 50)),
+    ema20: last(ema(closes, 20)),
+    rsi14: last(rsi(closes, 14)),
+    macd: last(macd(closes)),
+    bollinger: last(bollinger(closes)),
+    averageVolume20: last(averageVolume(bars, 20)),
+    volume: latest.volume,
+    high52w: range.high,
+    low52w: range.low
+  };
+};
+
+// A year of stored bars is enough for every indicator, including the 52-week range;
+// missing history just yields fewer values, and a storage failure yields null
+export const loadIndicators = async (ticker: string, now: number = Date.now()): Promise<IndicatorSnapshot | null> => {
+  try {
+    return computeIndicators(await priceHistory.getDailyBars(ticker.toUpperCase(), toDateKey(now - 366 * DAY_MS)));
+  } catch (error) {
+    console.error('Error loading price history for indicators:', error);
+    return null;
+  }
+};
+
+const fixed = (value: number | null, digits = 2): string => (value === null ? 'n/a' : value.toFixed(digits));
+
+// Plain-text block for prompts; unavailable indicators are marked n/a rather than omitted
+export const formatIndicatorsForPrompt = (snapshot: IndicatorSnapshot | null): string => {
+  if (!snapshot) return 'No stored price history is available yet, so no technical indicators could be computed.';
+
+  return [
+    `As of ${snapshot.asOf} (${snapshot.barCount} daily bars of history):`,
+    `- Close: KES ${fixed(snapshot.close)}`,
+    `- SMA 20: ${fixed(snapshot.sma20)}, SMA 50: ${fixed(snapshot.sma50)}, EMA 20: ${fixed(snapshot.ema20)}`,
+    `- RSI 14: ${fixed(snapshot.rsi14, 1)}`,
+    `- MACD (12, 26, 9): ${snapshot.macd ? `line ${fixed(snapshot.macd.macd, 3)}, signal ${fixed(snapshot.macd.signal, 3)}, histogram ${fixed(snapshot.macd.histogram, 3)}` : 'n/a'}`,
+    `- Bollinger Bands (20, 2): ${snapshot.bollinger ? `lower ${fixed(snapshot.bollinger.lower)}, middle ${fixed(snapshot.bollinger.middle)}, upper ${fixed(snapshot.bollinger.upper)}` : 'n/a'}`,
+    `- Volume: ${snapshot.volume.toLocaleString()} vs 20-day average ${snapshot.averageVolume20 === null ? 'n/a' : Math.round(snapshot.averageVolume20).toLocaleString()}`,
+    `- 52-week range: ${fixed(snapshot.low52w)} to ${fixed(snapshot.high52w)}${snapshot.barCount < 250 ? ' (partial year of history)' : ''}`
+  ].join('\n');
+};
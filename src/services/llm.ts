@@ -0,0 +1,163 @@
+// Client for OpenAI-compatible chat completion servers (Groq, OpenAI, llama.cpp,
+// Ollama). Model, temperature and token limits are resolved per use case.
+import { config, LLMSettings, LLMUseCase } from '../config';
+import { APIError, fetchOrThrow, readJson } from './errors';
+import { RenderedPrompt, promptRegistry } from './prompts';
+
+const SOURCE = 'AI service';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMClientConfig {
+  baseUrl: string;
+  apiKey?: string;
+  systemPrompt: RenderedPrompt;
+  defaults: LLMSettings;
+  contextTokens: number;
+  useCases: Partial<Record<LLMUseCase, Partial<LLMSettings>>>;
+}
+
+export interface CompletionOptions {
+  signal?: AbortSignal;
+  // Ask the server for a JSON object response (OpenAI response_format)
+  json?: boolean;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+  // Sent in place of choices when the server fails mid-stream
+  error?: { message?: string; type?: string; code?: string | number } | string;
+}
+
+// Mid-stream failures arrive after the 200 response, so they are reported with the server's own message
+const streamError = (chunk: ChatCompletionChunk): APIError => {
+  const detail = typeof chunk.error === 'string' ? chunk.error : chunk.error?.message;
+  const code = typeof chunk.error === 'object' ? chunk.error.code ?? chunk.error.type : undefined;
+  const message = detail ? `${SOURCE} failed mid-stream: ${detail}` : `${SOURCE} sent a stream chunk without choices`;
+  if (code === 'rate_limit_exceeded' || code === 429) return new APIError('rate_limit', SOURCE, message);
+  return new APIError('upstream', SOURCE, message);
+};
+
+export class LLMClient {
+  private config: LLMClientConfig;
+
+  constructor(clientConfig: LLMClientConfig) {
+    this.config = clientConfig;
+  }
+
+  settingsFor(useCase: LLMUseCase): LLMSettings {
+    return { ...this.config.defaults, ...this.config.useCases[useCase] };
+  }
+
+  get contextTokens(): number {
+    return this.config.contextTokens;
+  }
+
+  get systemPrompt(): string {
+    return this.config.systemPrompt.text;
+  }
+
+  get systemPromptVersion(): number {
+    return this.config.systemPrompt.version;
+  }
+
+  // Prepends the configured system prompt unless the caller supplied one
+  withSystemPrompt(messages: ChatMessage[]): ChatMessage[] {
+    if (messages[0]?.role === 'system') return messages;
+    return [{ role: 'system', content: this.config.systemPrompt.text }, ...messages];
+  }
+
+  async complete(messages: ChatMessage[], useCase: LLMUseCase, options: CompletionOptions = {}): Promise<string> {
+    const response = await fetchOrThrow(SOURCE, this.completionsUrl(), this.buildRequest(messages, useCase, false, options));
+    const data = await readJson<ChatCompletionResponse>(response, SOURCE);
+    return data.choices[0]?.message?.content ?? '';
+  }
+
+  // Yields completion tokens as they arrive on the SSE stream
+  async *stream(messages: ChatMessage[], useCase: LLMUseCase, signal?: AbortSignal): AsyncGenerator<string> {
+    const response = await fetchOrThrow(SOURCE, this.completionsUrl(), this.buildRequest(messages, useCase, true, { signal }));
+
+    if (!response.body) {
+      throw new APIError('parse', SOURCE, `${SOURCE} returned an empty stream`, response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') return;
+
+          let chunk: ChatCompletionChunk;
+          try {
+            chunk = JSON.parse(payload);
+          } catch {
+            throw new APIError('parse', SOURCE, `${SOURCE} sent a malformed stream chunk`);
+          }
+          if (chunk.error || !Array.isArray(chunk.choices)) throw streamError(chunk);
+          const token = chunk.choices[0]?.delta?.content;
+          if (token) yield token;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private completionsUrl(): string {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  private buildRequest(messages: ChatMessage[], useCase: LLMUseCase, stream: boolean, options: CompletionOptions): RequestInit {
+    const settings = this.settingsFor(useCase);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without authentication
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    return {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        messages: this.withSystemPrompt(messages),
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        stream,
+        ...(options.json ? { response_format: { type: 'json_object' } } : {})
+      }),
+      signal: options.signal
+    };
+  }
+}
+
+export const llmClient = new LLMClient({ ...config.llm, systemPrompt: promptRegistry.render('system', {}) });
@@ -0,0 +1,217 @@
+// Market breadth from the full quote list and two locally computed index levels:
+// an all-share index weighted by market cap (NASI-style) and a geometric mean of a
+// 20-stock blue-chip basket (NSE 20-style). Levels are chain-linked day to day from
+// the prices recorded at the previous day's last update, so they stay continuous
+// when listings or share counts change, and one point per day is kept in localStorage.
+import { CompanyFundamentals, NSEStock } from '../types/market';
+import { quoteStore } from './quoteStore';
+import { fundamentalsStore } from './fundamentals';
+import { isTradingDay, priceHistory, toDateKey } from './priceHistory';
+import { fiftyTwoWeekRange } from './indicators';
+
+export interface MarketBreadth {
+  advancers: number;
+  decliners: number;
+  unchanged: number;
+  totalVolume: number;
+  totalTurnover: number;
+  // Tickers trading beyond their range over the previous 52 weeks of stored daily bars
+  newHighs: string[];
+  newLows: string[];
+}
+
+export interface IndexPoint {
+  date: string;
+  allShare: number;
+  top20: number;
+  advancers: number;
+  decliners: number;
+  unchanged: number;
+  totalTurnover: number;
+}
+
+interface IndexBase {
+  date: string;
+  allShare: number;
+  top20: number;
+  prices: Record<string, number>;
+}
+
+export interface IndexHistoryState {
+  points: IndexPoint[];
+  // Levels and prices at the end of the last recorded day before the latest point
+  base: IndexBase | null;
+  latestPrices: Record<string, number>;
+}
+
+type Listener = () => void;
+type YearRange = { high: number; low: number };
+
+const STORAGE_KEY = 'finadvisor-market-indices';
+const MAX_POINTS = 730;
+const BASE_LEVEL = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fixed blue-chip basket standing in for the exchange's NSE 20 constituents
+export const TOP20_CONSTITUENTS = [
+  'SCOM', 'EQTY', 'KCB', 'COOP', 'ABSA', 'NCBA', 'SCBK', 'SBIC', 'DTK', 'IMH',
+  'EABL', 'BAT', 'KEGN', 'KPLC', 'TOTL', 'JUB', 'BRIT', 'CIC', 'NMG', 'CTUM'
+];
+
+export const computeBreadth = (quotes: NSEStock[], yearRanges: Record<string, YearRange | null>): MarketBreadth => ({
+  advancers: quotes.filter(stock => stock.Change > 0).length,
+  decliners: quotes.filter(stock => stock.Change < 0).length,
+  unchanged: quotes.filter(stock => stock.Change === 0).length,
+  totalVolume: quotes.reduce((total, stock) => total + stock.Volume, 0),
+  totalTurnover: quotes.reduce((total, stock) => total + stock.Price * stock.Volume, 0),
+  newHighs: quotes.filter(stock => {
+    const range = yearRanges[stock.Ticker];
+    return !!range && stock.Price > range.high;
+  }).map(stock => stock.Ticker),
+  newLows: quotes.filter(stock => {
+    const range = yearRanges[stock.Ticker];
+    return !!range && stock.Price < range.low;
+  }).map(stock => stock.Ticker)
+});
+
+// Ratios of today's level to the base level. Listings with no recorded base price (e.g. on the
+// first day or when newly listed) are measured from their previous close, Price - Change; the
+// all-share ratio leaves out listings without a share count
+const indexRatios = (
+  quotes: NSEStock[],
+  basePrices: Record<string, number>,
+  fundamentals: Record<string, CompanyFundamentals>
+): { allShare: number; top20: number } => {
+  const basePriceOf = (stock: NSEStock) => basePrices[stock.Ticker] ?? stock.Price - stock.Change;
+
+  let capNow = 0;
+  let capBase = 0;
+  quotes.forEach(stock => {
+    const shares = fundamentals[stock.Ticker]?.sharesOutstanding;
+    const basePrice = basePriceOf(stock);
+    if (!shares || basePrice <= 0 || stock.Price <= 0) return;
+    capNow += stock.Price * shares;
+    capBase += basePrice * shares;
+  });
+
+  const logReturns = quotes
+    .filter(stock => TOP20_CONSTITUENTS.includes(stock.Ticker) && basePriceOf(stock) > 0 && stock.Price > 0)
+    .map(stock => Math.log(stock.Price / basePriceOf(stock)));
+
+  return {
+    allShare: capBase > 0 ? capNow / capBase : 1,
+    top20: logReturns.length > 0 ? Math.exp(logReturns.reduce((total, value) => total + value, 0) / logReturns.length) : 1
+  };
+};
+
+const loadState = (): IndexHistoryState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw) as IndexHistoryState;
+  } catch {
+    // Fall through to an empty history
+  }
+  return { points: [], base: null, latestPrices: {} };
+};
+
+export class IndexHistoryStore {
+  private state = loadState();
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): IndexHistoryState => this.state;
+
+  // Upserts today's point; the first update of a new day rolls the previous day into the base
+  record(quotes: NSEStock[], breadth: MarketBreadth, fundamentals: Record<string, CompanyFundamentals>, now: number = Date.now()): IndexPoint | null {
+    if (quotes.length === 0) return null;
+    const today = toDateKey(now);
+    const { points, latestPrices } = this.state;
+    const latest = points[points.length - 1];
+
+    let base = this.state.base;
+    if (latest && latest.date < today) {
+      base = { date: latest.date, allShare: latest.allShare, top20: latest.top20, prices: latestPrices };
+    }
+
+    const ratios = indexRatios(quotes, base?.prices ?? {}, fundamentals);
+    const point: IndexPoint = {
+      date: today,
+      allShare: (base?.allShare ?? BASE_LEVEL) * ratios.allShare,
+      top20: (base?.top20 ?? BASE_LEVEL) * ratios.top20,
+      advancers: breadth.advancers,
+      decliners: breadth.decliners,
+      unchanged: breadth.unchanged,
+      totalTurnover: breadth.totalTurnover
+    };
+
+    this.commit({
+      points: [...points.filter(existing => existing.date !== today), point].slice(-MAX_POINTS),
+      base,
+      latestPrices: Object.fromEntries(quotes.map(stock => [stock.Ticker, stock.Price]))
+    });
+    return point;
+  }
+
+  clear(): void {
+    this.commit({ points: [], base: null, latestPrices: {} });
+  }
+
+  private commit(state: IndexHistoryState): void {
+    this.state = state;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error('Error saving index history:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const indexHistoryStore = new IndexHistoryStore();
+
+// 52-week ranges exclude today's bar so a new high is measured against the prior year.
+// They change at most once a day, so they are loaded once per date and reused.
+let rangeCache: { date: string; ranges: Record<string, YearRange | null> } | null = null;
+
+export const loadYearRanges = async (tickers: string[], now: number = Date.now()): Promise<Record<string, YearRange | null>> => {
+  const today = toDateKey(now);
+  if (rangeCache?.date !== today) rangeCache = { date: today, ranges: {} };
+  const cache = rangeCache;
+  const missing = tickers.filter(ticker => !(ticker in cache.ranges));
+
+  await Promise.all(
+    missing.map(async ticker => {
+      try {
+        const bars = (await priceHistory.getDailyBars(ticker, toDateKey(now - 366 * DAY_MS))).filter(bar => bar.date < today);
+        cache.ranges[ticker] = fiftyTwoWeekRange(bars);
+      } catch (error) {
+        console.error('Error loading price history:', error);
+        cache.ranges[ticker] = null;
+      }
+    })
+  );
+  return cache.ranges;
+};
+
+export const loadMarketBreadth = async (quotes: NSEStock[], now: number = Date.now()): Promise<MarketBreadth> =>
+  computeBreadth(quotes, await loadYearRanges(quotes.map(stock => stock.Ticker), now));
+
+// Records an index point on every quote refresh while the app is open. Weekends and days
+// on which price history opened no bars (holidays, or before the first trade) are skipped,
+// so stale quotes do not add flat days to the chain-linked series.
+export const startIndexRecorder = (): (() => void) =>
+  quoteStore.onQuotes(quotes => {
+    const now = Date.now();
+    if (!isTradingDay(now)) return;
+    Promise.all([loadMarketBreadth(quotes, now), priceHistory.hasBarsOn(quotes.map(stock => stock.Ticker), toDateKey(now))])
+      .then(([breadth, traded]) => {
+        if (traded) indexHistoryStore.record(quotes, breadth, fundamentalsStore.getSnapshot(), now);
+      })
+      .catch(error => console.error('Error recording market indices:', error));
+  });
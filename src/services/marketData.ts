@@ -0,0 +1,107 @@
+// Market data providers. Components and APIService talk to a MarketDataProvider
+// so the live feeds can be swapped for local fixtures through configuration.
+import { config, MarketDataProviderKind } from '../config';
+import { NSEStock, BraveSearchResult } from '../types/market';
+import { nseQuoteFixtures, braveSearchFixtures } from '../data/nseFixtures';
+import { fetchOrThrow, readJson } from './errors';
+
+// Brave reports publish dates as "age" (e.g. "2 days ago") and "page_age" (ISO)
+interface BraveWebResult extends BraveSearchResult {
+  age?: string;
+  page_age?: string;
+}
+
+interface BraveSearchResponse {
+  web?: {
+    results: BraveWebResult[];
+  };
+}
+
+export interface MarketDataProvider {
+  getQuotes(): Promise<NSEStock[]>;
+  search(query: string, count?: number): Promise<BraveSearchResult[]>;
+  getNews(query: string, count?: number, recencyDays?: number): Promise<BraveSearchResult[]>;
+}
+
+// Closest Brave freshness window that still covers the requested number of days
+const freshnessFor = (recencyDays: number): string => {
+  if (recencyDays <= 1) return 'pd';
+  if (recencyDays <= 7) return 'pw';
+  if (recencyDays <= 31) return 'pm';
+  return 'py';
+};
+
+// Talks to the backend proxy, which forwards to the NSE feed and Brave Search
+export class HttpMarketDataProvider implements MarketDataProvider {
+  private apiBaseUrl: string;
+
+  constructor(apiBaseUrl: string) {
+    this.apiBaseUrl = apiBaseUrl;
+  }
+
+  async getQuotes(): Promise<NSEStock[]> {
+    const response = await fetchOrThrow('NSE feed', `${this.apiBaseUrl}/nse`);
+    return readJson<NSEStock[]>(response, 'NSE feed');
+  }
+
+  async search(query: string, count = 10): Promise<BraveSearchResult[]> {
+    return this.braveSearch(`q=${encodeURIComponent(query)}&count=${count}`);
+  }
+
+  async getNews(query: string, count = 10, recencyDays = 7): Promise<BraveSearchResult[]> {
+    return this.braveSearch(`q=${encodeURIComponent(query)}&count=${count}&freshness=${freshnessFor(recencyDays)}`);
+  }
+
+  private async braveSearch(params: string): Promise<BraveSearchResult[]> {
+    const response = await fetchOrThrow('Brave Search', `${this.apiBaseUrl}/search?${params}`, {
+      headers: { 'Accept': 'application/json' }
+    });
+
+    const data = await readJson<BraveSearchResponse>(response, 'Brave Search');
+    return (data.web?.results || []).map(({ age, page_age, ...result }) => ({
+      ...result,
+      published: result.published ?? page_age ?? age
+    }));
+  }
+}
+
+export class LocalMarketDataProvider implements MarketDataProvider {
+  private quotes: NSEStock[];
+  private results: BraveSearchResult[];
+
+  constructor(quotes: NSEStock[] = nseQuoteFixtures, results: BraveSearchResult[] = braveSearchFixtures) {
+    this.quotes = quotes;
+    this.results = results;
+  }
+
+  async getQuotes(): Promise<NSEStock[]> {
+    return this.quotes.map(stock => ({ ...stock }));
+  }
+
+  async search(query: string, count = 10): Promise<BraveSearchResult[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const scored = this.results.map(result => {
+      const text = `${result.title} ${result.description}`.toLowerCase();
+      return { result, score: terms.filter(term => text.includes(term)).length };
+    });
+
+    // Fall back to the full fixture set so prompts always have some context
+    const matches = scored.filter(item => item.score > 0).sort((a, b) => b.score - a.score);
+    return (matches.length > 0 ? matches.map(item => item.result) : this.results).slice(0, count);
+  }
+
+  async getNews(query: string, count = 10): Promise<BraveSearchResult[]> {
+    return this.search(query, count);
+  }
+}
+
+export const createMarketDataProvider = (kind: MarketDataProviderKind = config.marketData.provider): MarketDataProvider => {
+  switch (kind) {
+    case 'local':
+      return new LocalMarketDataProvider();
+    default:
+      return new HttpMarketDataProvider(config.apiBaseUrl);
+  }
+};
+
+export const marketDataProvider = createMarketDataProvider();
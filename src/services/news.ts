@@ -0,0 +1,147 @@
+// News normalisation. Search results arrive with free-form publish dates,
+// tracking parameters and the same story syndicated across outlets; this
+// turns them into a deduplicated, recency-filtered list sorted newest first.
+import { BraveSearchResult } from '../types/market';
+
+export interface NewsItem extends BraveSearchResult {
+  // Epoch milliseconds, or null when the date could not be parsed
+  publishedAt: number | null;
+  canonicalUrl: string;
+  source: string;
+  // Other outlets carrying the same story
+  duplicates: string[];
+}
+
+export interface NormalizeOptions {
+  recencyDays: number;
+  now?: number;
+  // Undated results cannot be checked against the window; they are kept after dated ones
+  includeUndated?: boolean;
+}
+
+const MINUTE = 60 * 1000;
+const RELATIVE_UNITS: Record<string, number> = {
+  second: 1000,
+  minute: MINUTE,
+  hour: 60 * MINUTE,
+  day: 24 * 60 * MINUTE,
+  week: 7 * 24 * 60 * MINUTE,
+  month: 30 * 24 * 60 * MINUTE,
+  year: 365 * 24 * 60 * MINUTE
+};
+
+// Accepts ISO timestamps, "3 hours ago" style ages and dates such as "October 5, 2024"
+export const parsePublished = (published: string | undefined, now: number = Date.now()): number | null => {
+  if (!published) return null;
+  const value = published.trim().toLowerCase();
+
+  if (value === 'today' || value === 'just now') return now;
+  if (value === 'yesterday') return now - RELATIVE_UNITS.day;
+
+  const relative = value.match(/^(\d+|an?)\s+(second|minute|hour|day|week|month|year)s?\s+ago$/);
+  if (relative) {
+    const amount = /^\d+$/.test(relative[1]) ? Number(relative[1]) : 1;
+    return now - amount * RELATIVE_UNITS[relative[2]];
+  }
+
+  const parsed = Date.parse(published);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|cmpid|ocid)$/i;
+
+// Lower-cased host without "www.", no tracking parameters, fragment, AMP suffix or trailing slash
+export const canonicalizeUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.toLowerCase().replace(/^(www|m|amp)\./, '');
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+    const path = parsed.pathname.replace(/\/amp\/?$/, '').replace(/\/+$/, '');
+    return `https://${host}${path}${query}`;
+  } catch {
+    return url.trim();
+  }
+};
+
+export const sourceOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+const TITLE_STOPWORDS = new Set(['the', 'a', 'an', 'of', 'to', 'in', 'on', 'for', 'and', 'as', 'at', 'by', 'with', 'is', 'its']);
+
+// Outlets append their name, e.g. "Safaricom profit rises - Business Daily"
+const titleTokens = (title: string): Set<string> => {
+  const headline = title.replace(/\s+[|\-–—]\s+[^|\-–—]+$/, '');
+  return new Set(
+    (headline.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(token => !TITLE_STOPWORDS.has(token))
+  );
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const NEAR_DUPLICATE_THRESHOLD = 0.6;
+
+const byNewest = (a: NewsItem, b: NewsItem): number => {
+  if (a.publishedAt === b.publishedAt) return 0;
+  if (a.publishedAt === null) return 1;
+  if (b.publishedAt === null) return -1;
+  return b.publishedAt - a.publishedAt;
+};
+
+export const normalizeNews = (results: BraveSearchResult[], options: NormalizeOptions): NewsItem[] => {
+  const now = options.now ?? Date.now();
+  const cutoff = now - options.recencyDays * RELATIVE_UNITS.day;
+  const includeUndated = options.includeUndated ?? true;
+
+  const items = results
+    .map<NewsItem>(result => ({
+      ...result,
+      publishedAt: parsePublished(result.published, now),
+      canonicalUrl: canonicalizeUrl(result.url),
+      source: sourceOf(result.url),
+      duplicates: []
+    }))
+    .filter(item => (item.publishedAt === null ? includeUndated : item.publishedAt >= cutoff))
+    .sort(byNewest);
+
+  // Newest first, so each cluster is represented by its most recent report
+  const clusters: Array<{ item: NewsItem; tokens: Set<string> }> = [];
+  const seenUrls = new Set<string>();
+  for (const item of items) {
+    if (seenUrls.has(item.canonicalUrl)) continue;
+    seenUrls.add(item.canonicalUrl);
+
+    const tokens = titleTokens(item.title);
+    const cluster = clusters.find(existing => jaccard(existing.tokens, tokens) >= NEAR_DUPLICATE_THRESHOLD);
+    if (cluster) {
+      cluster.item.duplicates.push(item.url);
+    } else {
+      clusters.push({ item, tokens });
+    }
+  }
+
+  return clusters.map(cluster => cluster.item);
+};
+
+export const formatPublished = (publishedAt: number | null, now: number = Date.now()): string => {
+  if (publishedAt === null) return 'Date unknown';
+  const elapsed = Math.max(0, now - publishedAt);
+  if (elapsed < RELATIVE_UNITS.hour) return `${Math.max(1, Math.round(elapsed / MINUTE))}m ago`;
+  if (elapsed < RELATIVE_UNITS.day) return `${Math.round(elapsed / RELATIVE_UNITS.hour)}h ago`;
+  if (elapsed < RELATIVE_UNITS.week) return `${Math.round(elapsed / RELATIVE_UNITS.day)}d ago`;
+  return new Date(publishedAt).toLocaleDateString();
+};
@@ -0,0 +1,181 @@
+// IndexedDB-backed time series of NSE quotes. Every poll of the quote feed is
+// stored as a tick per ticker and rolled into a daily OHLCV bar.
+import { NSEStock, PriceTick, DailyBar } from '../types/market';
+
+const DB_NAME = 'finadvisor-market';
+const DB_VERSION = 1;
+const TICKS_STORE = 'ticks';
+const BARS_STORE = 'dailyBars';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Nairobi is UTC+3 all year (no daylight saving)
+const NAIROBI_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+// Bars are keyed by the Nairobi calendar date, the day the NSE session belongs to
+export const toDateKey = (timestamp: number): string => new Date(timestamp + NAIROBI_OFFSET_MS).toISOString().slice(0, 10);
+
+// Midnight at the start of the Nairobi date, for loading today's ticks
+export const startOfDay = (timestamp: number): number => Date.parse(`${toDateKey(timestamp)}T00:00:00+03:00`);
+
+// The NSE trades Monday to Friday; public holidays are caught by the stale-quote check in recordSnapshot
+export const isTradingDay = (timestamp: number): boolean => {
+  const weekday = new Date(timestamp + NAIROBI_OFFSET_MS).getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+};
+
+// A quote still showing the last stored close and session volume was carried over from an earlier session
+const isStaleQuote = (tick: PriceTick, lastBar: DailyBar | undefined): boolean =>
+  !!lastBar && lastBar.close === tick.price && lastBar.volume === tick.volume;
+
+const rollBar = (bar: DailyBar | undefined, tick: PriceTick): DailyBar => {
+  if (!bar) {
+    return {
+      ticker: tick.ticker,
+      date: toDateKey(tick.timestamp),
+      open: tick.price,
+      high: tick.price,
+      low: tick.price,
+      close: tick.price,
+      volume: tick.volume
+    };
+  }
+
+  return {
+    ...bar,
+    high: Math.max(bar.high, tick.price),
+    low: Math.min(bar.low, tick.price),
+    close: tick.price,
+    // The feed reports cumulative session volume, so the bar keeps the largest value seen
+    volume: Math.max(bar.volume, tick.volume)
+  };
+};
+
+class PriceHistoryStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(TICKS_STORE)) {
+            db.createObjectStore(TICKS_STORE, { keyPath: ['ticker', 'timestamp'] });
+          }
+          if (!db.objectStoreNames.contains(BARS_STORE)) {
+            db.createObjectStore(BARS_STORE, { keyPath: ['ticker', 'date'] });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Ticks are stored on every poll. A bar is only opened on a trading day once the quote has moved
+  // away from the previous session's close, so weekends and holidays do not add flat bars.
+  async recordSnapshot(stocks: NSEStock[], timestamp: number = Date.now()): Promise<void> {
+    if (stocks.length === 0) return;
+    const tradingDay = isTradingDay(timestamp);
+
+    const db = await this.open();
+    const tx = db.transaction([TICKS_STORE, BARS_STORE], 'readwrite');
+    const ticks = tx.objectStore(TICKS_STORE);
+    const bars = tx.objectStore(BARS_STORE);
+    const date = toDateKey(timestamp);
+
+    for (const stock of stocks) {
+      const tick: PriceTick = {
+        ticker: stock.Ticker,
+        timestamp,
+        price: stock.Price,
+        change: stock.Change,
+        volume: stock.Volume
+      };
+      ticks.put(tick);
+      if (!tradingDay) continue;
+
+      const existing = bars.get([stock.Ticker, date]);
+      existing.onsuccess = () => {
+        const bar = existing.result as DailyBar | undefined;
+        if (bar) {
+          bars.put(rollBar(bar, tick));
+          return;
+        }
+        const previous = bars.openCursor(IDBKeyRange.bound([stock.Ticker, ''], [stock.Ticker, date], false, true), 'prev');
+        previous.onsuccess = () => {
+          if (!isStaleQuote(tick, previous.result?.value as DailyBar | undefined)) bars.put(rollBar(undefined, tick));
+        };
+      };
+    }
+
+    await transactionDone(tx);
+  }
+
+  async getTicks(ticker: string, from: number, to: number = Date.now()): Promise<PriceTick[]> {
+    const db = await this.open();
+    const store = db.transaction(TICKS_STORE, 'readonly').objectStore(TICKS_STORE);
+    const range = IDBKeyRange.bound([ticker, from], [ticker, to]);
+    return requestToPromise(store.getAll(range) as IDBRequest<PriceTick[]>);
+  }
+
+  async getDailyBars(ticker: string, fromDate: string, toDate: string = toDateKey(Date.now())): Promise<DailyBar[]> {
+    const db = await this.open();
+    const store = db.transaction(BARS_STORE, 'readonly').objectStore(BARS_STORE);
+    const range = IDBKeyRange.bound([ticker, fromDate], [ticker, toDate]);
+    return requestToPromise(store.getAll(range) as IDBRequest<DailyBar[]>);
+  }
+
+  // True when any of the tickers has a bar for the date, i.e. the session has started trading
+  async hasBarsOn(tickers: string[], date: string): Promise<boolean> {
+    const db = await this.open();
+    const store = db.transaction(BARS_STORE, 'readonly').objectStore(BARS_STORE);
+    const found = await Promise.all(tickers.map(ticker => requestToPromise(store.count([ticker, date]))));
+    return found.some(count => count > 0);
+  }
+
+  // Inserts bars from an external source (e.g. a CSV export) without touching ticks
+  async importDailyBars(newBars: DailyBar[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(BARS_STORE, 'readwrite');
+    const store = tx.objectStore(BARS_STORE);
+    newBars.forEach(bar => store.put(bar));
+    await transactionDone(tx);
+  }
+
+  async pruneTicksBefore(timestamp: number): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(TICKS_STORE, 'readwrite');
+    const store = tx.objectStore(TICKS_STORE);
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if ((cursor.value as PriceTick).timestamp < timestamp) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+    await transactionDone(tx);
+  }
+}
+
+export const priceHistory = new PriceHistoryStore();
@@ -0,0 +1,317 @@
+// Versioned prompt templates. Each template declares typed variables that are
+// substituted into {{placeholders}}; rendering fails loudly on missing or
+// unknown variables instead of sending a broken prompt. Every rendered prompt
+// carries its id and version so stored analyses can be traced and reproduced.
+
+type PromptValue = string | number;
+
+export interface PromptVariables {
+  system: Record<string, never>;
+  'stock-analysis': { symbol: string; sources: string; indicators: string; fundamentals: string; citationInstructions: string };
+  'market-overview': { sources: string; citationInstructions: string };
+  'financial-planning': {
+    age: number;
+    income: number;
+    riskTolerance: string;
+    goals: string;
+    timeHorizon: number;
+    currentSavings: number;
+  };
+  'portfolio-analysis': { holdings: string };
+  'follow-up-context': { subject: string; context: string };
+  'conversation-summary': { previousSummary: string; transcript: string };
+  'news-sentiment': { headlines: string };
+  'stock-comparison': { period: string; stocks: string };
+}
+
+export type PromptId = keyof PromptVariables;
+
+export interface PromptTemplate<K extends PromptId = PromptId> {
+  id: K;
+  version: number;
+  description: string;
+  variables: Array<keyof PromptVariables[K] & string>;
+  template: string;
+}
+
+export interface RenderedPrompt {
+  id: string;
+  version: number;
+  text: string;
+  variables: Record<string, PromptValue>;
+}
+
+export class PromptRenderError extends Error {
+  constructor(id: string, version: number, message: string) {
+    super(`Prompt ${id}@${version}: ${message}`);
+    this.name = 'PromptRenderError';
+  }
+}
+
+type TemplateRegistry = { [K in PromptId]: PromptTemplate<K>[] };
+
+const templates: TemplateRegistry = {
+  system: [{
+    id: 'system',
+    version: 1,
+    description: 'Advisor persona and disclaimer shared by every completion',
+    variables: [],
+    template: 'You are FinAdvisor AI, a professional investment advisor specializing in Kenyan markets. Provide clear, data-driven investment advice. Always include the disclaimer: "I am not a licensed financial advisor. This is educational information only."'
+  }],
+  'stock-analysis': [{
+    id: 'stock-analysis',
+    version: 1,
+    description: 'Structured buy/hold/sell analysis of one NSE stock from search results',
+    variables: ['symbol', 'sources', 'citationInstructions'],
+    template: `Analyze this NSE stock data for {{symbol}} and provide investment insights:
+
+Search Results:
+{{sources}}
+
+Please provide:
+1. Current price estimate in KES (priceEstimate, null if the data does not support one)
+2. Recent performance analysis (summary)
+3. Investment recommendation (recommendation: buy, hold or sell)
+4. Risk assessment (riskLevel: low, medium or high)
+5. Key factors affecting the stock (factors)
+6. How confident you are in the recommendation (confidence, 0 to 1)
+
+Focus on Kenyan market context and economic factors.
+{{citationInstructions}} This applies to the summary and to each factor.`
+  }, {
+    id: 'stock-analysis',
+    version: 2,
+    description: 'Structured analysis grounded in computed technical indicators as well as search results',
+    variables: ['symbol', 'sources', 'indicators', 'citationInstructions'],
+    template: `Analyze this NSE stock data for {{symbol}} and provide investment insights:
+
+Technical indicators computed from recorded daily prices:
+{{indicators}}
+
+Search Results:
+{{sources}}
+
+Please provide:
+1. Current price estimate in KES (priceEstimate, null if the data does not support one)
+2. Recent performance analysis (summary), referring to the trend, momentum and volume indicators above rather than a single day's move
+3. Investment recommendation (recommendation: buy, hold or sell)
+4. Risk assessment (riskLevel: low, medium or high), taking volatility and the 52-week range into account
+5. Key factors affecting the stock (factors)
+6. How confident you are in the recommendation (confidence, 0 to 1); lower it when indicator history is short
+
+Focus on Kenyan market context and economic factors.
+{{citationInstructions}} This applies to the summary and to each factor. The indicators are not numbered sources and need no citation.`
+  }, {
+    id: 'stock-analysis',
+    version: 3,
+    description: 'Adds reported fundamentals and valuation at the live price to the indicator-grounded analysis',
+    variables: ['symbol', 'sources', 'indicators', 'fundamentals', 'citationInstructions'],
+    template: `Analyze this NSE stock data for {{symbol}} and provide investment insights:
+
+Fundamentals and valuation:
+{{fundamentals}}
+
+Technical indicators computed from recorded daily prices:
+{{indicators}}
+
+Search Results:
+{{sources}}
+
+Please provide:
+1. Current price estimate in KES (priceEstimate, null if the data does not support one)
+2. Recent performance analysis (summary), referring to the trend, momentum and volume indicators above rather than a single day's move
+3. Investment recommendation (recommendation: buy, hold or sell), weighing the valuation multiples and dividend yield as well as price action
+4. Risk assessment (riskLevel: low, medium or high), taking volatility and the 52-week range into account
+5. Key factors affecting the stock (factors)
+6. How confident you are in the recommendation (confidence, 0 to 1); lower it when indicator history is short or the fundamentals are from an old period
+
+Focus on Kenyan market context and economic factors.
+{{citationInstructions}} This applies to the summary and to each factor. The fundamentals and indicators are not numbered sources and need no citation.`
+  }],
+  'market-overview': [{
+    id: 'market-overview',
+    version: 1,
+    description: 'Overall NSE market conditions from news search results',
+    variables: ['sources', 'citationInstructions'],
+    template: `Analyze the current Kenyan stock market conditions based on this data:
+
+{{sources}}
+
+Please provide:
+1. Overall market sentiment
+2. Key market movers
+3. Economic factors affecting the market
+4. Investment opportunities
+5. Risk factors to watch
+
+Focus on actionable insights for Kenyan investors.
+{{citationInstructions}}`
+  }],
+  'financial-planning': [{
+    id: 'financial-planning',
+    version: 1,
+    description: 'Personal allocation advice from the advisor profile',
+    variables: ['age', 'income', 'riskTolerance', 'goals', 'timeHorizon', 'currentSavings'],
+    template: `Provide personalized financial planning advice for a Kenyan investor with this profile:
+
+Age: {{age}}
+Income: KES {{income}}
+Risk Tolerance: {{riskTolerance}}
+Investment Goals: {{goals}}
+Time Horizon: {{timeHorizon}} years
+Current Savings: KES {{currentSavings}}
+
+Consider Kenyan investment options like:
+- NSE stocks (Safaricom, Equity Bank, KCB, etc.)
+- Government securities (Treasury Bills, Bonds)
+- Money market funds
+- Real estate investment
+- Pension schemes (NSSF, private pension)
+
+Provide specific allocation recommendations and explain the reasoning.`
+  }],
+  'portfolio-analysis': [{
+    id: 'portfolio-analysis',
+    version: 1,
+    description: 'Diversification, risk and rebalancing review of a holdings list',
+    variables: ['holdings'],
+    template: `Analyze this Kenyan stock portfolio and provide recommendations:
+
+Holdings: {{holdings}}
+
+Please assess:
+1. Portfolio diversification across sectors
+2. Risk level and concentration
+3. Performance relative to NSE index
+4. Rebalancing recommendations
+5. Additional stocks to consider
+
+Focus on Kenyan market dynamics and provide actionable advice.`
+  }],
+  'follow-up-context': [{
+    id: 'follow-up-context',
+    version: 1,
+    description: 'Opening message that grounds a follow-up chat in the analysed data',
+    variables: ['subject', 'context'],
+    template: `We are discussing {{subject}}. Here is the data and analysis the discussion is based on:
+
+{{context}}
+
+Answer my follow-up questions using this data. Say so when a question needs information that is not here, and keep answers concise.`
+  }],
+  'conversation-summary': [{
+    id: 'conversation-summary',
+    version: 1,
+    description: 'Compresses older chat turns when a conversation nears the context budget',
+    variables: ['previousSummary', 'transcript'],
+    template: `Summarise this conversation between an investor and their advisor so it can continue without the full transcript. Keep every figure, ticker, assumption and conclusion. Use at most 150 words.
+
+Earlier summary:
+{{previousSummary}}
+
+Transcript:
+{{transcript}}`
+  }],
+  'news-sentiment': [{
+    id: 'news-sentiment',
+    version: 1,
+    description: 'Scores numbered news headlines for investor sentiment',
+    variables: ['headlines'],
+    template: `Score the investor sentiment of each numbered Kenyan market news item below from -1 (very negative for the company's share price) to 1 (very positive). Use 0 for neutral or purely factual items.
+
+{{headlines}}
+
+Respond with JSON only, in the form {"scores": [0.4, -0.2, ...]} with exactly one score per item, in order.`
+  }],
+  'stock-comparison': [{
+    id: 'stock-comparison',
+    version: 1,
+    description: 'Comparative summary of two to four NSE stocks from the comparison view data',
+    variables: ['period', 'stocks'],
+    template: `Compare these NSE stocks for a Kenyan investor using only the data below. Performance figures cover the last {{period}}; indicators come from recorded daily prices.
+
+{{stocks}}
+
+Please provide:
+1. How their recent performance and momentum differ
+2. Differences in liquidity and trading activity
+3. Which looks relatively stronger or weaker on this data, and why
+4. Key risks to weigh when choosing between them
+
+Be specific about the figures, say where data is missing, and keep it under 300 words.`
+  }]
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g;
+
+// VITE_PROMPT_VERSIONS pins versions for A/B runs, e.g. "market-overview=2,stock-analysis=1"
+const parseVersionOverrides = (value: string | undefined): Partial<Record<PromptId, number>> => {
+  const overrides: Partial<Record<PromptId, number>> = {};
+  (value ?? '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [id, version] = entry.split('=');
+    if (id in templates && Number.isInteger(Number(version))) {
+      overrides[id as PromptId] = Number(version);
+    }
+  });
+  return overrides;
+};
+
+export class PromptRegistry {
+  private templates: TemplateRegistry;
+  private activeVersions: Partial<Record<PromptId, number>>;
+
+  constructor(registry: TemplateRegistry, activeVersions: Partial<Record<PromptId, number>> = {}) {
+    this.templates = registry;
+    this.activeVersions = activeVersions;
+  }
+
+  versions<K extends PromptId>(id: K): number[] {
+    return this.templates[id].map(template => template.version);
+  }
+
+  // Explicit version, else the pinned active version, else the latest
+  get<K extends PromptId>(id: K, version?: number): PromptTemplate<K> {
+    const candidates = this.templates[id] as PromptTemplate<K>[];
+    const wanted = version ?? this.activeVersions[id];
+    const template = wanted === undefined
+      ? candidates.reduce((latest, current) => (current.version > latest.version ? current : latest))
+      : candidates.find(candidate => candidate.version === wanted);
+
+    if (!template) {
+      throw new PromptRenderError(id, wanted ?? 0, 'unknown version');
+    }
+    return template;
+  }
+
+  setActiveVersion(id: PromptId, version: number): void {
+    this.get(id, version);
+    this.activeVersions[id] = version;
+  }
+
+  render<K extends PromptId>(id: K, variables: PromptVariables[K], version?: number): RenderedPrompt {
+    const template = this.get(id, version);
+    const values = variables as Record<string, PromptValue>;
+
+    // Empty strings are legitimate values (e.g. an optional free-text field); only absent or non-finite values are missing
+    const missing = template.variables.filter(name => {
+      const value = values[name];
+      return value === undefined || value === null || (typeof value === 'number' && !Number.isFinite(value));
+    });
+    if (missing.length > 0) {
+      throw new PromptRenderError(id, template.version, `missing values for ${missing.join(', ')}`);
+    }
+
+    const text = template.template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+      if (!template.variables.includes(name as keyof PromptVariables[K] & string)) {
+        throw new PromptRenderError(id, template.version, `template references undeclared variable ${name}`);
+      }
+      return String(values[name]);
+    });
+
+    const recorded: Record<string, PromptValue> = {};
+    template.variables.forEach(name => { recorded[name] = values[name]; });
+    return { id, version: template.version, text, variables: recorded };
+  }
+}
+
+export const promptRegistry = new PromptRegistry(templates, parseVersionOverrides(import.meta.env.VITE_PROMPT_VERSIONS));
@@ -0,0 +1,135 @@
+// App-wide NSE quote store. One poller feeds every tab so research, portfolio,
+// dashboard and alerts all see the same prices; components subscribe through
+// useQuotes (src/hooks/useQuotes.ts) and the store polls only while subscribed.
+import { config } from '../config';
+import { NSEStock } from '../types/market';
+import { MarketDataProvider, marketDataProvider } from './marketData';
+import { priceHistory, toDateKey } from './priceHistory';
+import { APIError, toAPIError, withRetry } from './errors';
+
+export interface QuoteSnapshot {
+  quotes: NSEStock[];
+  byTicker: Record<string, NSEStock>;
+  lastUpdated: Date | null;
+  loading: boolean;
+  error: APIError | null;
+}
+
+type Listener = () => void;
+type QuoteListener = (quotes: NSEStock[], previous: NSEStock[]) => void;
+
+const SOURCE = 'NSE feed';
+// Ticks only back the intraday chart, so a week of them is kept; daily bars are kept indefinitely
+const TICK_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class QuoteStore {
+  private provider: MarketDataProvider;
+  private intervalMs: number;
+  private snapshot: QuoteSnapshot = { quotes: [], byTicker: {}, lastUpdated: null, loading: false, error: null };
+  private listeners = new Set<Listener>();
+  private quoteListeners = new Set<QuoteListener>();
+  private pollers = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private inFlight: Promise<NSEStock[] | null> | null = null;
+  private ticksPrunedOn: string | null = null;
+
+  constructor(provider: MarketDataProvider, intervalMs: number) {
+    this.provider = provider;
+    this.intervalMs = intervalMs;
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): QuoteSnapshot => this.snapshot;
+
+  getQuote(ticker: string): NSEStock | undefined {
+    return this.snapshot.byTicker[ticker.toUpperCase()];
+  }
+
+  // Called with each fresh set of quotes and the set it replaced, e.g. to evaluate alerts
+  onQuotes(listener: QuoteListener): () => void {
+    this.quoteListeners.add(listener);
+    return () => {
+      this.quoteListeners.delete(listener);
+    };
+  }
+
+  // Reference counted: polling runs while at least one caller has started it
+  startPolling(): () => void {
+    this.pollers += 1;
+    if (this.pollers === 1) {
+      if (!this.snapshot.lastUpdated || Date.now() - this.snapshot.lastUpdated.getTime() >= this.intervalMs) {
+        this.refresh();
+      }
+      this.timer = setInterval(() => {
+        // Skip background tabs; the next visible tick catches up
+        if (typeof document === 'undefined' || !document.hidden) this.refresh();
+      }, this.intervalMs);
+    }
+
+    let stopped = false;
+    return () => {
+      if (stopped) return;
+      stopped = true;
+      this.pollers -= 1;
+      if (this.pollers === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  // Concurrent callers share one request. Resolves to the fresh quotes, or null if the feed failed.
+  refresh(): Promise<NSEStock[] | null> {
+    if (!this.inFlight) {
+      this.inFlight = this.load().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async load(): Promise<NSEStock[] | null> {
+    this.update({ loading: true });
+    try {
+      const quotes = await withRetry(SOURCE, () => this.provider.getQuotes());
+      // Stored before subscribers hear about it, so charts reloading history include this tick
+      await priceHistory.recordSnapshot(quotes).catch(error => console.error('Error recording price history:', error));
+      this.pruneTicks();
+      const previous = this.snapshot.quotes;
+      this.update({
+        quotes,
+        byTicker: Object.fromEntries(quotes.map(stock => [stock.Ticker.toUpperCase(), stock])),
+        lastUpdated: new Date(),
+        loading: false,
+        error: null
+      });
+      this.quoteListeners.forEach(listener => listener(quotes, previous));
+      return quotes;
+    } catch (error) {
+      console.error('Error fetching NSE data:', error);
+      this.update({ loading: false, error: toAPIError(error, SOURCE) });
+      return null;
+    }
+  }
+
+  // At most once a day; runs in the background so subscribers are not held up
+  private pruneTicks(now: number = Date.now()): void {
+    const today = toDateKey(now);
+    if (this.ticksPrunedOn === today) return;
+    this.ticksPrunedOn = today;
+    priceHistory.pruneTicksBefore(now - TICK_RETENTION_MS).catch(error => console.error('Error pruning price ticks:', error));
+  }
+
+  private update(changes: Partial<QuoteSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const quoteStore = new QuoteStore(marketDataProvider, config.marketData.pollIntervalMs);
@@ -0,0 +1,159 @@
+// Screener over the full NSE listing: derived columns, range and sector
+// filters, sorting, and named screens saved in localStorage.
+import { CompanyFundamentals, NSEStock } from '../types/market';
+import { sectorOf, toNSESector } from '../data/nseSectors';
+import { valuationOf } from './fundamentals';
+
+export type ScreenerColumn = 'price' | 'change' | 'changePercent' | 'volume' | 'turnover' | 'marketCap' | 'pe' | 'pb' | 'dividendYield';
+export type SortKey = ScreenerColumn | 'ticker';
+export type SortDirection = 'asc' | 'desc';
+
+export interface ScreenerRow {
+  stock: NSEStock;
+  ticker: string;
+  name: string;
+  sector: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  turnover: number; // KES traded, price x volume
+  // Valuation columns are null for companies without fundamentals or with no meaningful multiple
+  marketCap: number | null;
+  pe: number | null;
+  pb: number | null;
+  dividendYield: number | null;
+}
+
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export interface ScreenCriteria {
+  query: string;
+  sectors: string[];
+  ranges: Partial<Record<ScreenerColumn, NumericRange>>;
+  sortBy: SortKey;
+  sortDirection: SortDirection;
+}
+
+export interface SavedScreen {
+  name: string;
+  criteria: ScreenCriteria;
+  savedAt: string;
+}
+
+export const emptyCriteria: ScreenCriteria = {
+  query: '',
+  sectors: [],
+  ranges: {},
+  sortBy: 'turnover',
+  sortDirection: 'desc'
+};
+
+// Starting points offered alongside the user's own screens
+export const builtInScreens: SavedScreen[] = [
+  {
+    name: 'Top gainers',
+    criteria: { ...emptyCriteria, ranges: { changePercent: { min: 0.01 } }, sortBy: 'changePercent', sortDirection: 'desc' },
+    savedAt: ''
+  },
+  {
+    name: 'Top losers',
+    criteria: { ...emptyCriteria, ranges: { changePercent: { max: -0.01 } }, sortBy: 'changePercent', sortDirection: 'asc' },
+    savedAt: ''
+  },
+  {
+    name: 'High yield',
+    criteria: { ...emptyCriteria, ranges: { dividendYield: { min: 6 } }, sortBy: 'dividendYield', sortDirection: 'desc' },
+    savedAt: ''
+  },
+  {
+    name: 'Low P/E',
+    criteria: { ...emptyCriteria, ranges: { pe: { max: 6 } }, sortBy: 'pe', sortDirection: 'asc' },
+    savedAt: ''
+  },
+  {
+    name: 'Liquid banks',
+    criteria: { ...emptyCriteria, sectors: ['Banking'], ranges: { turnover: { min: 1_000_000 } } },
+    savedAt: ''
+  }
+];
+
+export const toScreenerRow = (stock: NSEStock, fundamentals?: CompanyFundamentals): ScreenerRow => {
+  const previousClose = stock.Price - stock.Change;
+  return {
+    ...valuationOf(stock.Price, fundamentals),
+    stock,
+    ticker: stock.Ticker,
+    name: stock.Name,
+    // Imports saved before sectors were validated may carry names the sector filter does not list
+    sector: (fundamentals && toNSESector(fundamentals.sector)) ?? sectorOf(stock.Ticker),
+    price: stock.Price,
+    change: stock.Change,
+    changePercent: previousClose > 0 ? (stock.Change / previousClose) * 100 : 0,
+    volume: stock.Volume,
+    turnover: stock.Price * stock.Volume
+  };
+};
+
+// A missing value never satisfies an active range
+const inRange = (value: number | null, range: NumericRange | undefined): boolean =>
+  !range || (value !== null && (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max));
+
+export const applyScreen = (
+  stocks: NSEStock[],
+  criteria: ScreenCriteria,
+  fundamentals: Record<string, CompanyFundamentals> = {}
+): ScreenerRow[] => {
+  const query = criteria.query.trim().toLowerCase();
+  const direction = criteria.sortDirection === 'asc' ? 1 : -1;
+  const columns = Object.keys(criteria.ranges) as ScreenerColumn[];
+
+  return stocks
+    .map(stock => toScreenerRow(stock, fundamentals[stock.Ticker.toUpperCase()]))
+    .filter(row => !query || row.ticker.toLowerCase().includes(query) || row.name.toLowerCase().includes(query))
+    .filter(row => criteria.sectors.length === 0 || criteria.sectors.includes(row.sector))
+    .filter(row => columns.every(column => inRange(row[column], criteria.ranges[column])))
+    .sort((a, b) => {
+      if (criteria.sortBy === 'ticker') return a.ticker.localeCompare(b.ticker) * direction;
+      const left = a[criteria.sortBy];
+      const right = b[criteria.sortBy];
+      // Rows without a value sort last in either direction
+      if (left === null || right === null) {
+        return left === right ? a.ticker.localeCompare(b.ticker) : left === null ? 1 : -1;
+      }
+      return (left - right) * direction || a.ticker.localeCompare(b.ticker);
+    });
+};
+
+const STORAGE_KEY = 'finadvisor-screens';
+
+export const getSavedScreens = (): SavedScreen[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as SavedScreen[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeScreens = (screens: SavedScreen[]): SavedScreen[] => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(screens));
+  } catch (error) {
+    console.error('Error saving screens:', error);
+  }
+  return screens;
+};
+
+// Saving under an existing name replaces that screen
+export const saveScreen = (name: string, criteria: ScreenCriteria): SavedScreen[] => {
+  const screen: SavedScreen = { name: name.trim(), criteria, savedAt: new Date().toISOString() };
+  const others = getSavedScreens().filter(existing => existing.name !== screen.name);
+  return writeScreens([...others, screen].sort((a, b) => a.name.localeCompare(b.name)));
+};
+
+export const deleteScreen = (name: string): SavedScreen[] =>
+  writeScreens(getSavedScreens().filter(screen => screen.name !== name));
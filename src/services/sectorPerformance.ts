@@ -0,0 +1,70 @@
+// Sector performance for the dashboard heat map: each sector's daily change is the
+// average of its constituents' changes weighted by market cap or by turnover.
+import { CompanyFundamentals, NSEStock } from '../types/market';
+import { ScreenerRow, toScreenerRow } from './screener';
+
+export type SectorWeighting = 'market-cap' | 'turnover';
+
+export interface SectorConstituent extends ScreenerRow {
+  weight: number; // share of the sector, 0-1
+}
+
+export interface SectorPerformance {
+  sector: string;
+  changePercent: number;
+  marketCap: number;
+  turnover: number;
+  // Share of the whole market by the chosen weighting, 0-1
+  marketShare: number;
+  advancers: number;
+  decliners: number;
+  // True when no constituent has a weight (e.g. no fundamentals) and the change is an equal-weighted average
+  equalWeighted: boolean;
+  constituents: SectorConstituent[];
+}
+
+export const weightingLabels: Record<SectorWeighting, string> = {
+  'market-cap': 'Market cap',
+  turnover: 'Turnover'
+};
+
+const weightOf = (row: ScreenerRow, weighting: SectorWeighting): number =>
+  weighting === 'market-cap' ? row.marketCap ?? 0 : row.turnover;
+
+// Sectors ordered by their weight in the market, constituents by their weight in the sector
+export const buildSectorPerformance = (
+  stocks: NSEStock[],
+  fundamentals: Record<string, CompanyFundamentals>,
+  weighting: SectorWeighting
+): SectorPerformance[] => {
+  const bySector = new Map<string, ScreenerRow[]>();
+  stocks.forEach(stock => {
+    const row = toScreenerRow(stock, fundamentals[stock.Ticker.toUpperCase()]);
+    bySector.set(row.sector, [...(bySector.get(row.sector) ?? []), row]);
+  });
+
+  const sectors = [...bySector.entries()].map(([sector, rows]) => {
+    const totalWeight = rows.reduce((total, row) => total + weightOf(row, weighting), 0);
+    const equalWeighted = totalWeight <= 0;
+    const constituents = rows
+      .map(row => ({ ...row, weight: equalWeighted ? 1 / rows.length : weightOf(row, weighting) / totalWeight }))
+      .sort((a, b) => b.weight - a.weight || a.ticker.localeCompare(b.ticker));
+
+    return {
+      sector,
+      changePercent: constituents.reduce((total, row) => total + row.changePercent * row.weight, 0),
+      marketCap: rows.reduce((total, row) => total + (row.marketCap ?? 0), 0),
+      turnover: rows.reduce((total, row) => total + row.turnover, 0),
+      marketShare: totalWeight,
+      advancers: rows.filter(row => row.change > 0).length,
+      decliners: rows.filter(row => row.change < 0).length,
+      equalWeighted,
+      constituents
+    };
+  });
+
+  const marketWeight = sectors.reduce((total, sector) => total + sector.marketShare, 0);
+  return sectors
+    .map(sector => ({ ...sector, marketShare: marketWeight > 0 ? sector.marketShare / marketWeight : 0 }))
+    .sort((a, b) => b.marketShare - a.marketShare || a.sector.localeCompare(b.sector));
+};
@@ -0,0 +1,240 @@
+// News sentiment per NSE ticker. Headlines are matched to listed companies,
+// scored from -1 (bearish) to 1 (bullish) and rolled into daily aggregates so
+// the research view can plot sentiment alongside price.
+import { SentimentScorerKind } from '../config';
+import { BraveSearchResult, DailySentiment, NSEStock } from '../types/market';
+import { toDateKey } from './priceHistory';
+import { parsePublished } from './news';
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export interface ScoredArticle {
+  title: string;
+  url: string;
+  description: string;
+  published?: string;
+  tickers: string[];
+  score: number;
+  label: SentimentLabel;
+  scorer: SentimentScorerKind;
+}
+
+// Financial news vocabulary, weighted by how strongly each word moves sentiment
+const LEXICON: Record<string, number> = {
+  gain: 1, gains: 1, gained: 1, rise: 1, rises: 1, rose: 1, rally: 1.5, rallies: 1.5, rallied: 1.5,
+  surge: 2, surges: 2, surged: 2, jump: 1.5, jumps: 1.5, jumped: 1.5, climb: 1, climbs: 1, climbed: 1,
+  growth: 1, grow: 1, grows: 1, grew: 1, profit: 1, profits: 1, record: 1, strong: 1, stronger: 1,
+  beat: 1.5, beats: 1.5, upgrade: 1.5, upgraded: 1.5, bullish: 2, dividend: 1, dividends: 1, bonus: 1,
+  expansion: 1, expands: 1, recovery: 1, recovers: 1, rebound: 1, rebounds: 1, outperform: 1.5,
+  outperforms: 1.5, positive: 1, optimism: 1, optimistic: 1, upbeat: 1, boost: 1, boosts: 1, boosted: 1,
+  approval: 1, approved: 1, wins: 1, win: 1, higher: 0.5, improved: 1, improves: 1, robust: 1,
+  fall: -1, falls: -1, fell: -1, drop: -1, drops: -1, dropped: -1, decline: -1, declines: -1, declined: -1,
+  slump: -2, slumps: -2, slumped: -2, plunge: -2, plunges: -2, plunged: -2, tumble: -1.5, tumbles: -1.5,
+  loss: -1.5, losses: -1.5, weak: -1, weaker: -1, miss: -1.5, misses: -1.5, downgrade: -1.5,
+  downgraded: -1.5, bearish: -2, warning: -1.5, warns: -1.5, debt: -0.5, default: -2, defaults: -2,
+  suspended: -2, suspension: -2, probe: -1.5, fraud: -2, fine: -1, fined: -1.5, penalty: -1.5,
+  lawsuit: -1.5, strike: -1, layoffs: -1.5, cuts: -1, cut: -1, lower: -0.5, slowdown: -1, risk: -0.5,
+  risks: -0.5, pressure: -0.5, concern: -1, concerns: -1, uncertainty: -1, negative: -1, underperform: -1.5,
+  receivership: -2, insolvency: -2, delisted: -2, delisting: -2, volatile: -0.5, volatility: -0.5
+};
+
+const NEGATORS = new Set(['not', 'no', 'never', "didn't", "don't", "doesn't", 'without', 'fails', 'failed']);
+const NEGATION_WINDOW = 3;
+const NEUTRAL_BAND = 0.15;
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[a-z']+/g) ?? [];
+
+export const labelFor = (score: number): SentimentLabel => {
+  if (score > NEUTRAL_BAND) return 'positive';
+  if (score < -NEUTRAL_BAND) return 'negative';
+  return 'neutral';
+};
+
+// Sum of word weights, flipped after a nearby negator and squashed into [-1, 1]
+export const lexiconScore = (text: string): number => {
+  const tokens = tokenize(text);
+  let total = 0;
+  let negateUntil = -1;
+
+  tokens.forEach((token, index) => {
+    if (NEGATORS.has(token)) {
+      negateUntil = index + NEGATION_WINDOW;
+      return;
+    }
+    const weight = LEXICON[token];
+    if (weight !== undefined) {
+      total += index <= negateUntil ? -weight : weight;
+    }
+  });
+
+  return total === 0 ? 0 : total / Math.sqrt(total * total + 4);
+};
+
+const NAME_STOPWORDS = new Set([
+  'plc', 'ltd', 'limited', 'group', 'holdings', 'company', 'co', 'corporation', 'investment', 'investments',
+  'bank', 'kenya', 'of', 'the', 'and', '&', 'insurance'
+]);
+
+// Distinctive words of a listing name, e.g. "Kenya Power & Lighting Co PLC" -> ["power", "lighting"]
+const nameKeywords = (name: string): string[] =>
+  name.toLowerCase().split(/\s+/).filter(word => word.length > 2 && !NAME_STOPWORDS.has(word));
+
+// Names the press uses that the listing name alone would not match
+const ALIASES: Record<string, string[]> = {
+  KPLC: ['kenya power'],
+  KQ: ['kenya airways'],
+  KEGN: ['kengen'],
+  EABL: ['eabl'],
+  SCBK: ['stanchart', 'standard chartered'],
+  COOP: ['co-op bank', 'co-operative bank'],
+  DTK: ['dtb'],
+  NSE: ['nse plc', 'nairobi securities exchange plc'],
+  BAT: ['bat kenya'],
+  IMH: ['i&m'],
+  HFCK: ['hf group'],
+  EQTY: ['equity group', 'equity bank'],
+  KNRE: ['kenya re', 'kenya reinsurance'],
+  UNGA: ['unga group']
+};
+
+// Tickers that also name something else, e.g. "NSE" for the exchange itself in every market
+// report, so only an alias counts as a mention of the listed company
+const ALIAS_ONLY_TICKERS = new Set(['NSE']);
+
+// Everyday words that cannot identify a company on their own, e.g. "Private equity firms"
+const COMMON_NAME_WORDS = new Set(['equity', 'standard', 'airways', 'reinsurance', 'unga', 'power', 'trust', 'crown', 'nation']);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Aliases match as whole words so "kenya re" does not match "Kenya Revenue Authority"
+const mentionsAlias = (lower: string, alias: string): boolean =>
+  new RegExp(`(^|[^a-z0-9])${escapeRegExp(alias)}($|[^a-z0-9])`).test(lower);
+
+// Tickers must appear in upper case to avoid matching ordinary words such as "KQ" in prose.
+// A name that reduces to one common word needs an alias instead.
+export const matchTickers = (text: string, stocks: Pick<NSEStock, 'Ticker' | 'Name'>[]): string[] => {
+  const lower = text.toLowerCase();
+  const words = new Set(tokenize(text));
+  return stocks
+    .filter(stock => {
+      if ((ALIASES[stock.Ticker] ?? []).some(alias => mentionsAlias(lower, alias))) return true;
+      if (ALIAS_ONLY_TICKERS.has(stock.Ticker)) return false;
+      if (new RegExp(`\\b${stock.Ticker}\\b`).test(text)) return true;
+      const keywords = nameKeywords(stock.Name);
+      if (keywords.length === 1 && COMMON_NAME_WORDS.has(keywords[0])) return false;
+      return keywords.length > 0 && keywords.every(keyword => words.has(keyword));
+    })
+    .map(stock => stock.Ticker);
+};
+
+export const articleText = (article: Pick<BraveSearchResult, 'title' | 'description'>): string =>
+  `${article.title}. ${article.description}`;
+
+// Numbered list sent to the LLM scorer
+export const formatHeadlinesForPrompt = (articles: Pick<BraveSearchResult, 'title' | 'description'>[]): string =>
+  articles.map((article, index) => `${index + 1}. ${articleText(article)}`).join('\n');
+
+// Reads {"scores": [...]} from the LLM scorer, or null if it does not line up with the headlines
+export const parseSentimentScores = (reply: string, count: number): number[] | null => {
+  try {
+    const start = reply.indexOf('{');
+    const end = reply.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+    const parsed = JSON.parse(reply.slice(start, end + 1)) as { scores?: unknown };
+    if (!Array.isArray(parsed.scores) || parsed.scores.length !== count) return null;
+    if (!parsed.scores.every(score => typeof score === 'number' && Number.isFinite(score))) return null;
+    return (parsed.scores as number[]).map(score => Math.max(-1, Math.min(1, score)));
+  } catch {
+    return null;
+  }
+};
+
+interface StoredDay extends DailySentiment {
+  scoreSum: number;
+}
+
+interface StoredSentiment {
+  days: Record<string, StoredDay>;
+  // ticker:url -> date first counted, so re-fetched articles are not counted twice
+  seen: Record<string, string>;
+}
+
+const STORAGE_KEY = 'finadvisor-sentiment';
+const RETENTION_DAYS = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class SentimentHistory {
+  private load(): StoredSentiment {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as StoredSentiment) : { days: {}, seen: {} };
+    } catch {
+      return { days: {}, seen: {} };
+    }
+  }
+
+  private save(data: StoredSentiment): void {
+    const cutoff = toDateKey(Date.now() - RETENTION_DAYS * DAY_MS);
+    Object.keys(data.days).forEach(key => {
+      if (data.days[key].date < cutoff) delete data.days[key];
+    });
+    Object.keys(data.seen).forEach(key => {
+      if (data.seen[key] < cutoff) delete data.seen[key];
+    });
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    } catch (error) {
+      console.error('Error saving sentiment history:', error);
+    }
+  }
+
+  record(articles: ScoredArticle[], timestamp: number = Date.now()): void {
+    if (articles.length === 0) return;
+
+    const data = this.load();
+
+    for (const article of articles) {
+      // Filed under the day the article was published; the fetch time only stands in for undated results
+      const date = toDateKey(Math.min(parsePublished(article.published, timestamp) ?? timestamp, timestamp));
+      for (const ticker of article.tickers) {
+        const seenKey = `${ticker}:${article.url}`;
+        if (data.seen[seenKey]) continue;
+        data.seen[seenKey] = date;
+
+        const dayKey = `${ticker}:${date}`;
+        const day: StoredDay = data.days[dayKey] ?? {
+          ticker, date, averageScore: 0, articleCount: 0, positive: 0, negative: 0, neutral: 0, scoreSum: 0
+        };
+        day.scoreSum += article.score;
+        day.articleCount += 1;
+        day[article.label] += 1;
+        day.averageScore = day.scoreSum / day.articleCount;
+        data.days[dayKey] = day;
+      }
+    }
+
+    this.save(data);
+  }
+
+  getDaily(ticker: string, fromDate: string, toDate: string = toDateKey(Date.now())): DailySentiment[] {
+    return Object.values(this.load().days)
+      .filter(day => day.ticker === ticker && day.date >= fromDate && day.date <= toDate)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(day => ({
+        ticker: day.ticker,
+        date: day.date,
+        averageScore: day.averageScore,
+        articleCount: day.articleCount,
+        positive: day.positive,
+        negative: day.negative,
+        neutral: day.neutral
+      }));
+  }
+
+  clear(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export const sentimentHistory = new SentimentHistory();
@@ -0,0 +1,156 @@
+// Structured stock analysis returned by the LLM as JSON. Responses are
+// validated at runtime; malformed output is repaired where the intent is clear
+// and otherwise re-asked once with the validation issues.
+import { ChatMessage } from './llm';
+
+export type StockRecommendation = 'buy' | 'hold' | 'sell';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface StructuredStockAnalysis {
+  priceEstimate: number | null;
+  recommendation: StockRecommendation;
+  riskLevel: RiskLevel;
+  factors: string[];
+  // 0 to 1
+  confidence: number;
+  summary: string;
+}
+
+export type ValidationResult =
+  | { valid: true; value: StructuredStockAnalysis }
+  | { valid: false; issues: string[] };
+
+const RECOMMENDATIONS: StockRecommendation[] = ['buy', 'hold', 'sell'];
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+export const stockAnalysisSchema = {
+  type: 'object',
+  required: ['priceEstimate', 'recommendation', 'riskLevel', 'factors', 'confidence', 'summary'],
+  properties: {
+    priceEstimate: { type: ['number', 'null'], description: 'Estimated current price in KES, null if unknown' },
+    recommendation: { type: 'string', enum: RECOMMENDATIONS },
+    riskLevel: { type: 'string', enum: RISK_LEVELS },
+    factors: { type: 'array', items: { type: 'string' }, description: 'Key factors affecting the stock' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    summary: { type: 'string', description: 'Two or three sentences on recent performance' }
+  }
+};
+
+export const stockAnalysisInstructions = `Respond with a single JSON object and nothing else. It must match this JSON schema:
+${JSON.stringify(stockAnalysisSchema, null, 2)}`;
+
+export const validateStockAnalysis = (value: unknown): ValidationResult => {
+  const issues: string[] = [];
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { valid: false, issues: ['response is not a JSON object'] };
+  }
+
+  const data = value as Record<string, unknown>;
+  if (data.priceEstimate !== null && (typeof data.priceEstimate !== 'number' || !Number.isFinite(data.priceEstimate))) {
+    issues.push('priceEstimate must be a number or null');
+  }
+  if (!RECOMMENDATIONS.includes(data.recommendation as StockRecommendation)) {
+    issues.push(`recommendation must be one of ${RECOMMENDATIONS.join(', ')}`);
+  }
+  if (!RISK_LEVELS.includes(data.riskLevel as RiskLevel)) {
+    issues.push(`riskLevel must be one of ${RISK_LEVELS.join(', ')}`);
+  }
+  if (!Array.isArray(data.factors) || !data.factors.every(factor => typeof factor === 'string')) {
+    issues.push('factors must be an array of strings');
+  }
+  if (typeof data.confidence !== 'number' || data.confidence < 0 || data.confidence > 1) {
+    issues.push('confidence must be a number between 0 and 1');
+  }
+  if (typeof data.summary !== 'string') {
+    issues.push('summary must be a string');
+  }
+
+  if (issues.length > 0) return { valid: false, issues };
+  return { valid: true, value: data as unknown as StructuredStockAnalysis };
+};
+
+// Pulls the JSON object out of code fences or surrounding prose
+export const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[^0-9.-]/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const normaliseEnum = <T extends string>(value: unknown, options: T[], aliases: Record<string, T>): unknown => {
+  if (typeof value !== 'string') return value;
+  const lower = value.trim().toLowerCase();
+  if (options.includes(lower as T)) return lower;
+  const alias = Object.keys(aliases).find(key => lower.includes(key));
+  return alias ? aliases[alias] : value;
+};
+
+// Fixes common near misses: "Strong Buy", "KES 17.50", confidence given as a percentage, factors as one string
+export const repairStockAnalysis = (value: unknown): unknown => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return value;
+  const data = { ...(value as Record<string, unknown>) };
+
+  data.priceEstimate = toNumber(data.priceEstimate);
+  data.recommendation = normaliseEnum(data.recommendation, RECOMMENDATIONS, {
+    buy: 'buy', accumulate: 'buy', hold: 'hold', neutral: 'hold', sell: 'sell', reduce: 'sell'
+  });
+  data.riskLevel = normaliseEnum(data.riskLevel, RISK_LEVELS, {
+    low: 'low', moderate: 'medium', medium: 'medium', high: 'high'
+  });
+
+  if (typeof data.factors === 'string') {
+    data.factors = data.factors.split(/\n|;/).map(factor => factor.replace(/^[-*\d.\s]+/, '').trim()).filter(Boolean);
+  }
+
+  const confidence = toNumber(data.confidence);
+  if (confidence !== null) {
+    data.confidence = confidence > 1 && confidence <= 100 ? confidence / 100 : confidence;
+  }
+
+  if (data.summary === undefined) data.summary = '';
+  return data;
+};
+
+export const parseStockAnalysis = (text: string): ValidationResult => {
+  const parsed = extractJson(text);
+  if (parsed === undefined) {
+    return { valid: false, issues: ['response did not contain a JSON object'] };
+  }
+
+  const strict = validateStockAnalysis(parsed);
+  return strict.valid ? strict : validateStockAnalysis(repairStockAnalysis(parsed));
+};
+
+export const buildReaskMessages = (original: ChatMessage[], reply: string, issues: string[]): ChatMessage[] => [
+  ...original,
+  { role: 'assistant', content: reply },
+  {
+    role: 'user',
+    content: `That response was invalid: ${issues.join('; ')}. ${stockAnalysisInstructions}`
+  }
+];
+
+export const formatStockAnalysis = (analysis: StructuredStockAnalysis): string => [
+  analysis.summary,
+  `Recommendation: ${analysis.recommendation.toUpperCase()} (confidence ${Math.round(analysis.confidence * 100)}%)`,
+  `Risk level: ${analysis.riskLevel}`,
+  analysis.priceEstimate !== null ? `Price estimate: KES ${analysis.priceEstimate.toFixed(2)}` : '',
+  analysis.factors.length > 0 ? `Key factors:\n${analysis.factors.map(factor => `- ${factor}`).join('\n')}` : ''
+].filter(Boolean).join('\n\n');
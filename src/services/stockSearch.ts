@@ -0,0 +1,128 @@
+// Fuzzy lookup of NSE listings by ticker or company name, plus the recent
+// searches list shown when the search box is empty.
+import { NSEStock } from '../types/market';
+
+export interface StockMatch {
+  stock: NSEStock;
+  score: number; // 0-1, higher is better
+  matchedOn: 'ticker' | 'name';
+}
+
+const normalize = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9&\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for identical strings, falling towards 0 as more edits are needed
+const similarity = (a: string, b: string): number =>
+  a.length === 0 && b.length === 0 ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+const isSubsequence = (query: string, text: string): boolean => {
+  let position = 0;
+  for (const char of text) {
+    if (char === query[position]) position++;
+    if (position === query.length) return true;
+  }
+  return false;
+};
+
+// Candidate spellings for typo tolerance: the whole text, each word, and the
+// text cut to the query length so partially typed names still compare fairly
+const typoTargets = (query: string, text: string): string[] =>
+  [text, ...text.split(' '), text.slice(0, query.length)].filter(Boolean);
+
+const typoSimilarity = (query: string, text: string): number =>
+  Math.max(...typoTargets(query, text).map(target => similarity(query, target)));
+
+export const scoreText = (query: string, text: string): number => {
+  const q = normalize(query);
+  const t = normalize(text);
+  if (!q || !t) return 0;
+
+  if (t === q) return 1;
+  if (t.startsWith(q)) return 0.9;
+  if (t.split(' ').some(word => word.startsWith(q))) return 0.8;
+  if (t.includes(q)) return 0.7;
+  // Abbreviations such as "dtbk"; sparse subsequences of long names are coincidences
+  const compactQuery = q.replace(/\s/g, '');
+  const compactText = t.replace(/\s/g, '');
+  const density = compactQuery.length / compactText.length;
+  if (compactQuery.length >= 2 && density >= 0.3 && isSubsequence(compactQuery, compactText)) {
+    return 0.5 + 0.1 * density;
+  }
+
+  // Only tolerate typos once there is enough input to judge them
+  const typo = q.length >= 3 ? typoSimilarity(q, t) : 0;
+  return typo >= 0.75 ? 0.6 * typo : 0;
+};
+
+const MATCH_THRESHOLD = 0.45;
+
+export const searchStocks = (query: string, stocks: NSEStock[], limit = 8): StockMatch[] =>
+  stocks
+    .map<StockMatch>(stock => {
+      const ticker = scoreText(query, stock.Ticker);
+      const name = scoreText(query, stock.Name);
+      // Prefer the ticker on ties, since that is what most users type
+      return ticker >= name
+        ? { stock, score: ticker, matchedOn: 'ticker' }
+        : { stock, score: name, matchedOn: 'name' };
+    })
+    .filter(match => match.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score || b.stock.Volume - a.stock.Volume)
+    .slice(0, limit);
+
+const SUGGESTION_THRESHOLD = 0.4;
+
+// Looser, typo-only ranking used for "did you mean" when searchStocks finds nothing
+export const suggestStocks = (query: string, stocks: NSEStock[], limit = 3): NSEStock[] => {
+  const q = normalize(query);
+  if (!q) return [];
+
+  return stocks
+    .map(stock => ({
+      stock,
+      score: Math.max(similarity(q, normalize(stock.Ticker)), typoSimilarity(q, normalize(stock.Name)))
+    }))
+    .filter(candidate => candidate.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(candidate => candidate.stock);
+};
+
+const RECENT_KEY = 'finadvisor-recent-searches';
+const MAX_RECENT = 6;
+
+export const getRecentSearches = (): string[] => {
+  try {
+    const raw = localStorage.getItem(RECENT_KEY);
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const addRecentSearch = (ticker: string): string[] => {
+  const recent = [ticker, ...getRecentSearches().filter(existing => existing !== ticker)].slice(0, MAX_RECENT);
+  try {
+    localStorage.setItem(RECENT_KEY, JSON.stringify(recent));
+  } catch (error) {
+    console.error('Error saving recent searches:', error);
+  }
+  return recent;
+};
+
+export const clearRecentSearches = (): void => {
+  localStorage.removeItem(RECENT_KEY);
+};
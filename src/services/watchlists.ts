@@ -0,0 +1,145 @@
+// Named watchlists persisted in localStorage. Shared as an external store so the
+// research page, dashboard cards and the Watchlists tab stay in sync; components
+// read it through useWatchlists (src/hooks/useWatchlists.ts).
+
+export interface WatchlistItem {
+  ticker: string;
+  addedAt: string;
+  note: string;
+  targetPrice: number | null;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  items: WatchlistItem[];
+  createdAt: string;
+}
+
+export interface WatchlistState {
+  lists: Watchlist[];
+  // One-click adds from other pages go to this list
+  activeId: string;
+}
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'finadvisor-watchlists';
+const DEFAULT_NAME = 'My Watchlist';
+
+const newId = (): string => `wl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createList = (name: string): Watchlist => ({
+  id: newId(),
+  name: name.trim() || DEFAULT_NAME,
+  items: [],
+  createdAt: new Date().toISOString()
+});
+
+// Always at least one list, and the active id always points at one of them
+const normalize = (state: Partial<WatchlistState> | null): WatchlistState => {
+  const lists = state?.lists && state.lists.length > 0 ? state.lists : [createList(DEFAULT_NAME)];
+  const activeId = lists.some(list => list.id === state?.activeId) ? (state?.activeId as string) : lists[0].id;
+  return { lists, activeId };
+};
+
+const load = (): WatchlistState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return normalize(raw ? (JSON.parse(raw) as WatchlistState) : null);
+  } catch {
+    return normalize(null);
+  }
+};
+
+export class WatchlistStore {
+  private state: WatchlistState = load();
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): WatchlistState => this.state;
+
+  getActive(): Watchlist {
+    return this.state.lists.find(list => list.id === this.state.activeId) ?? this.state.lists[0];
+  }
+
+  contains(ticker: string, listId = this.state.activeId): boolean {
+    const list = this.state.lists.find(existing => existing.id === listId);
+    return !!list?.items.some(item => item.ticker === ticker.toUpperCase());
+  }
+
+  createList(name: string): Watchlist {
+    const list = createList(name);
+    this.commit({ lists: [...this.state.lists, list], activeId: list.id });
+    return list;
+  }
+
+  renameList(listId: string, name: string): void {
+    if (!name.trim()) return;
+    this.updateList(listId, list => ({ ...list, name: name.trim() }));
+  }
+
+  // Deleting the last list leaves a fresh empty default in its place
+  deleteList(listId: string): void {
+    this.commit({ ...this.state, lists: this.state.lists.filter(list => list.id !== listId) });
+  }
+
+  setActive(listId: string): void {
+    this.commit({ ...this.state, activeId: listId });
+  }
+
+  addTicker(ticker: string, listId = this.state.activeId): void {
+    const symbol = ticker.toUpperCase();
+    this.updateList(listId, list =>
+      list.items.some(item => item.ticker === symbol)
+        ? list
+        : { ...list, items: [...list.items, { ticker: symbol, addedAt: new Date().toISOString(), note: '', targetPrice: null }] }
+    );
+  }
+
+  removeTicker(ticker: string, listId = this.state.activeId): void {
+    const symbol = ticker.toUpperCase();
+    this.updateList(listId, list => ({ ...list, items: list.items.filter(item => item.ticker !== symbol) }));
+  }
+
+  toggleTicker(ticker: string, listId = this.state.activeId): void {
+    if (this.contains(ticker, listId)) {
+      this.removeTicker(ticker, listId);
+    } else {
+      this.addTicker(ticker, listId);
+    }
+  }
+
+  updateItem(listId: string, ticker: string, changes: Partial<Pick<WatchlistItem, 'note' | 'targetPrice'>>): void {
+    const symbol = ticker.toUpperCase();
+    this.updateList(listId, list => ({
+      ...list,
+      items: list.items.map(item => (item.ticker === symbol ? { ...item, ...changes } : item))
+    }));
+  }
+
+  private updateList(listId: string, update: (list: Watchlist) => Watchlist): void {
+    this.commit({
+      ...this.state,
+      lists: this.state.lists.map(list => (list.id === listId ? update(list) : list))
+    });
+  }
+
+  private commit(next: WatchlistState): void {
+    this.state = normalize(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Error saving watchlists:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const watchlistStore = new WatchlistStore();
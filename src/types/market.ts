@@ -0,0 +1,92 @@
+// Shared market data types used by the data providers and components
+
+export interface NSEStock {
+  Ticker: string;
+  Name: string;
+  Volume: number;
+  Price: number;
+  Change: number;
+}
+
+export interface BraveSearchResult {
+  title: string;
+  url: string;
+  description: string;
+  published?: string;
+}
+
+export interface PriceTick {
+  ticker: string;
+  timestamp: number;
+  price: number;
+  change: number;
+  volume: number;
+}
+
+export interface DailyBar {
+  ticker: string;
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface DailySentiment {
+  ticker: string;
+  date: string; // YYYY-MM-DD
+  averageScore: number; // -1 (bearish) to 1 (bullish)
+  articleCount: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+}
+
+// Per-share figures in KES from the company's latest reported period
+export interface CompanyFundamentals {
+  ticker: string;
+  sector: string;
+  sharesOutstanding: number;
+  eps: number | null;
+  dps: number | null;
+  bookValuePerShare: number | null;
+  period: string; // e.g. FY2024 or H1 2025
+  periodEnd: string; // YYYY-MM-DD
+}
+
+export type CorporateActionType = 'dividend' | 'bonus' | 'split' | 'rights';
+
+interface CorporateActionBase {
+  id: string;
+  ticker: string;
+  type: CorporateActionType;
+  // Register closes on this date; holders on the register are entitled
+  bookClosure: string; // YYYY-MM-DD
+}
+
+export interface DividendAction extends CorporateActionBase {
+  type: 'dividend';
+  dividendKind: 'interim' | 'final' | 'special';
+  amountPerShare: number; // KES, gross of withholding tax
+  paymentDate: string; // YYYY-MM-DD
+}
+
+// Ratios read as `newShares` for every `heldShares`, e.g. a 1:10 bonus is 1 new per 10 held
+// and a 10-for-1 split is 10 new per 1 held
+export interface ShareRatioAction extends CorporateActionBase {
+  type: 'bonus' | 'split';
+  newShares: number;
+  heldShares: number;
+  paymentDate?: string; // bonus shares credited
+}
+
+export interface RightsAction extends CorporateActionBase {
+  type: 'rights';
+  newShares: number;
+  heldShares: number;
+  subscriptionPrice: number; // KES per new share
+  paymentDate?: string; // closing date for subscription
+}
+
+export type CorporateAction = DividendAction | ShareRatioAction | RightsAction;
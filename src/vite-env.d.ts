@@ -1 +1,19 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MARKET_DATA_PROVIDER?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_QUOTE_POLL_SECONDS?: string;
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_PROMPT_VERSIONS?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_LLM_TEMPERATURE?: string;
+  readonly VITE_LLM_MAX_TOKENS?: string;
+  readonly VITE_LLM_CONTEXT_TOKENS?: string;
+  readonly VITE_SENTIMENT_SCORER?: string;
+  readonly VITE_NEWS_RECENCY_DAYS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}